@@ -1,5 +1,9 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { getProviderDefaultModel, getModelById } from "./modelConfig";
+import { ModelResult } from "./modelDefinitions";
+import { estimateUsage } from "./tokenCounter";
+import { withRetry } from "./utils/retry";
+import { ProviderProgressFn } from "./providers/providerTypes";
 
 /**
  * Creates a fresh Anthropic client instance for each request
@@ -23,7 +27,7 @@ function getAnthropicClient(): Anthropic {
   }
 
   // Always create a fresh client to avoid any key caching/mixing issues
-  return new Anthropic({ apiKey });
+  return new Anthropic({ apiKey, maxRetries: 0 }); // Retries follow the shared policy in utils/retry
 }
 
 /**
@@ -32,7 +36,8 @@ function getAnthropicClient(): Anthropic {
  * @param options - Configuration options for the request
  * @param abortSignal - Optional abort signal for cancellation
  * @param notifyFn - Optional function to send notifications
- * @returns The text response from the Anthropic API
+ * @param onProgress - Streams the reply, reporting partial output as it arrives
+ * @returns The text response from the Anthropic API with its token usage and stop reason
  */
 export async function sendAnthropicPrompt(
   prompt: string,
@@ -40,13 +45,15 @@ export async function sendAnthropicPrompt(
     model?: string;
     temperature?: number;
     maxOutputTokens?: number; // Maps to max_tokens in Anthropic API
+    systemInstruction?: string; // Maps to system in Anthropic API
   } = {},
   abortSignal?: AbortSignal,
   notifyFn?: (message: {
     level: "info" | "warning" | "error" | "debug";
     data: string;
   }) => Promise<void>,
-): Promise<string> {
+  onProgress?: ProviderProgressFn,
+): Promise<ModelResult> {
   // Debug logging via stderr to help trace execution flow
   if (notifyFn) {
     await notifyFn({
@@ -61,95 +68,92 @@ export async function sendAnthropicPrompt(
 
   const client = getAnthropicClient();
   const model = options.model || getDefaultAnthropicModel();
+  const startTime = Date.now();
 
-  // Maximum retry attempts
-  const maxRetries = 3;
-  let retries = 0;
-
-  while (retries < maxRetries) {
-    try {
-      if (notifyFn) {
-        await notifyFn({
-          level: "debug",
-          data: `[DEBUG-Anthropic] About to call messages.create with model: ${model}`,
-        });
-      }
-
-      const completion = await client.messages.create({
-        model,
-        max_tokens: options.maxOutputTokens || 8192,
-        temperature: options.temperature ?? 0,
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+  try {
+    if (notifyFn) {
+      await notifyFn({
+        level: "debug",
+        data: `[DEBUG-Anthropic] About to call messages.stream with model: ${model}`,
       });
+    }
 
-      if (notifyFn) {
-        await notifyFn({
-          level: "debug",
-          data: `[DEBUG-Anthropic] Received response with ${completion.usage?.input_tokens} input tokens, ${completion.usage?.output_tokens} output tokens`,
-        });
-      }
-
-      // Extract text from the response
-      const textContent = completion.content
-        .filter((block) => block.type === "text")
-        .map((block) => block.text)
-        .join("");
-
-      if (!textContent) {
-        throw new Error("No text content in Anthropic response");
-      }
-
-      return textContent;
-    } catch (error) {
-      retries++;
-
-      // Check if the error is due to cancellation
-      if (abortSignal?.aborted) {
-        throw new Error("Anthropic request was cancelled");
-      }
-
-      // Handle rate limit errors
-      if (
-        error instanceof Anthropic.APIError &&
-        error.status === 429
-      ) {
-        // Extract retry-after time if available
-        const retryAfter = error.headers?.["retry-after"];
-        const waitTime = retryAfter
-          ? parseInt(retryAfter, 10) * 1000
-          : 60 * 1000; // Default to 60 seconds
-
-        if (notifyFn) {
-          await notifyFn({
-            level: "warning",
-            data: `[DEBUG-Anthropic] Rate limited. Waiting ${waitTime / 1000} seconds before retry ${retries}/${maxRetries}`,
+    const request: Anthropic.MessageStreamParams = {
+      model,
+      max_tokens: options.maxOutputTokens || 8192, // Required by the API; normally set from models.yaml
+      temperature: options.temperature ?? 0,
+      system: options.systemInstruction,
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+    };
+
+    // Rate limits, "overloaded" responses and server errors are retried under the shared policy.
+    // Always stream: the SDK refuses non-streamed requests whose max_tokens could
+    // take longer than 10 minutes, which includes the models.yaml defaults
+    const completion = await withRetry(
+      () => {
+        let bytes = 0;
+        const stream = client.messages.stream(request, { signal: abortSignal });
+        if (onProgress) {
+          stream.on("text", (delta, snapshot) => {
+            bytes += Buffer.byteLength(delta);
+            onProgress({ text: snapshot, bytes });
           });
         }
+        return stream.finalMessage();
+      },
+      { label: "Anthropic", notifyFn, abortSignal },
+    );
+
+    if (notifyFn) {
+      await notifyFn({
+        level: "debug",
+        data: `[DEBUG-Anthropic] Received response with ${completion.usage?.input_tokens} input tokens, ${completion.usage?.output_tokens} output tokens`,
+      });
+    }
 
-        if (retries < maxRetries) {
-          await new Promise((resolve) => setTimeout(resolve, waitTime));
-          continue;
-        }
-      }
+    // Extract text from the response
+    const textContent = completion.content
+      .filter((block) => block.type === "text")
+      .map((block) => block.text)
+      .join("");
 
-      // Re-throw other errors or if max retries exceeded
-      if (notifyFn) {
-        await notifyFn({
-          level: "error",
-          data: `[DEBUG-Anthropic] Error: ${error instanceof Error ? error.message : String(error)}`,
-        });
-      }
+    if (!textContent) {
+      throw new Error("No text content in Anthropic response");
+    }
 
-      throw error;
+    return {
+      text: textContent,
+      usage: completion.usage
+        ? {
+            prompt: completion.usage.input_tokens,
+            completion: completion.usage.output_tokens,
+            total:
+              completion.usage.input_tokens + completion.usage.output_tokens,
+          }
+        : estimateUsage(prompt, textContent),
+      finishReason: completion.stop_reason ?? undefined,
+      latencyMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    // Check if the error is due to cancellation
+    if (abortSignal?.aborted) {
+      throw new Error("Anthropic request was cancelled");
     }
-  }
 
-  throw new Error("Max retries exceeded for Anthropic API call");
+    if (notifyFn) {
+      await notifyFn({
+        level: "error",
+        data: `[DEBUG-Anthropic] Error: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+
+    throw error;
+  }
 }
 
 /**
@@ -3,35 +3,103 @@
 import { Command } from "commander";
 import * as fs from "fs";
 import * as path from "path";
-import { getProviderDefaultModel, getModelById } from "./modelConfig";
-
-// Define the interface for Gemini API request
-interface GeminiRequest {
-  contents: {
-    parts: {
-      text: string;
-    }[];
-  }[];
-  generationConfig?: {
-    temperature?: number;
-    topP?: number;
-    topK?: number;
-    maxOutputTokens?: number;
-  };
+import {
+  FinishReason,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  GoogleGenAI,
+  HarmBlockThreshold,
+  HarmCategory,
+} from "@google/genai";
+import {
+  getProviderDefaultModel,
+  getModelById,
+  SafetySettingDef,
+} from "./modelConfig";
+import { ModelResult } from "./modelDefinitions";
+import { estimateUsage } from "./tokenCounter";
+import { withRetry } from "./utils/retry";
+import { ProviderProgressFn } from "./providers/providerTypes";
+
+/**
+ * Creates a fresh Gemini client instance for each request
+ * This prevents any possibility of key corruption or caching issues
+ *
+ * @returns Initialized Gemini client
+ * @throws Error if GEMINI_API_KEY is not set
+ */
+function getGeminiClient(): GoogleGenAI {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY environment variable is not set");
+  }
+
+  // Sanitized logging to help debug key issues only in development
+  // We'll use stderr to avoid interfering with JSON output
+  if (process.env.DEBUG_API_KEYS) {
+    const firstPart = apiKey.substring(0, 7);
+    const lastPart = apiKey.substring(apiKey.length - 4);
+    console.error(`Using Gemini API key: ${firstPart}...${lastPart}`);
+  }
+
+  // The SDK sends the key in a header rather than the query string
+  return new GoogleGenAI({ apiKey });
 }
 
-// Define the interface for Gemini API response
-interface GeminiResponse {
-  candidates: {
-    content: {
-      parts: {
-        text: string;
-      }[];
-    };
-  }[];
-  promptFeedback?: any;
+// Finish reasons that mean the reply was withheld rather than completed
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+/**
+ * Join the text parts of the first candidate, skipping thought summaries
+ */
+function extractText(response: GenerateContentResponse): string {
+  return (
+    response.candidates?.[0]?.content?.parts
+      ?.filter((part) => part.text && !part.thought)
+      .map((part) => part.text)
+      .join("") ?? ""
+  );
 }
 
+/**
+ * Read a generateContentStream, reporting partial output as it arrives
+ * @returns The text of every chunk, with the last chunk's candidate, usage and feedback
+ */
+async function readGeminiStream(
+  stream: AsyncGenerator<GenerateContentResponse>,
+  onProgress: ProviderProgressFn,
+): Promise<{ text: string; last?: GenerateContentResponse }> {
+  let text = "";
+  let bytes = 0;
+  let last: GenerateContentResponse | undefined;
+  for await (const chunk of stream) {
+    const delta = extractText(chunk);
+    if (delta) {
+      text += delta;
+      bytes += Buffer.byteLength(delta);
+      onProgress({ text, bytes });
+    }
+    last = chunk;
+  }
+  return { text, last };
+}
+
+/**
+ * Sends a prompt to the Gemini API and returns the response
+ * @param prompt - The text prompt to send
+ * @param options - Configuration options for the request
+ * @param abortSignal - Optional abort signal for timeout and cancellation
+ * @param notifyFn - Optional function to send notifications
+ * @param onProgress - Streams the reply, reporting partial output as it arrives
+ * @returns The text response from the Gemini API with its token usage and finish reason
+ * @throws Error if the prompt or the reply was blocked, or the reply came back empty
+ */
 export async function sendGeminiPrompt(
   prompt: string,
   options: {
@@ -40,22 +108,22 @@ export async function sendGeminiPrompt(
     topP?: number;
     topK?: number;
     maxOutputTokens?: number;
+    systemInstruction?: string;
+    thinkingBudget?: number; // Tokens the model may spend thinking; 0 turns thinking off where supported
+    safetySettings?: SafetySettingDef[];
   } = {},
   abortSignal?: AbortSignal,
   notifyFn?: (notification: {
     level: "info" | "debug" | "warning" | "error";
     data: string;
   }) => Promise<void>,
-): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  // A hard timeout is now provided by the AbortSignal from the debateOrchestrator
+  onProgress?: ProviderProgressFn,
+): Promise<ModelResult> {
+  const client = getGeminiClient();
 
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY environment variable is not set");
-  }
+  // The AbortSignal from sendToModel fires on the per-call timeout or when the client cancels
 
-  // Default to Gemini 2.5 Pro Preview if no model is specified
+  // Default to the configured Gemini model if no model is specified
   const model = options.model || getDefaultGeminiModel();
 
   if (notifyFn) {
@@ -65,66 +133,96 @@ export async function sendGeminiPrompt(
     });
   }
 
-  // Using the v1beta endpoint
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`;
-
-  const requestBody: GeminiRequest = {
-    contents: [
-      {
-        parts: [
-          {
-            text: prompt,
-          },
-        ],
-      },
-    ],
+  const config: GenerateContentConfig = {
+    temperature: options.temperature,
+    topP: options.topP,
+    topK: options.topK,
+    maxOutputTokens: options.maxOutputTokens,
+    systemInstruction: options.systemInstruction,
+    thinkingConfig:
+      options.thinkingBudget !== undefined
+        ? { thinkingBudget: options.thinkingBudget }
+        : undefined,
+    safetySettings: options.safetySettings?.map((setting) => ({
+      category: setting.category as HarmCategory,
+      threshold: setting.threshold as HarmBlockThreshold,
+    })),
+    abortSignal,
   };
 
-  // Add optional generation config if any parameters are provided
-  if (Object.keys(options).length > 0) {
-    requestBody.generationConfig = {};
-
-    if (options.temperature !== undefined) {
-      requestBody.generationConfig.temperature = options.temperature;
-    }
-
-    if (options.topP !== undefined) {
-      requestBody.generationConfig.topP = options.topP;
-    }
-
-    if (options.topK !== undefined) {
-      requestBody.generationConfig.topK = options.topK;
-    }
-
-    if (options.maxOutputTokens !== undefined) {
-      requestBody.generationConfig.maxOutputTokens = options.maxOutputTokens;
-    }
-  }
-
   try {
-    const response = await fetch(`${url}?key=${apiKey}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+    const startTime = Date.now();
+
+    // Rate limits, server errors and dropped connections are retried under the shared policy
+    const { text, last } = await withRetry(
+      async () => {
+        if (onProgress) {
+          const stream = await client.models.generateContentStream({
+            model,
+            contents: prompt,
+            config,
+          });
+          return readGeminiStream(stream, onProgress);
+        }
+        const response = await client.models.generateContent({
+          model,
+          contents: prompt,
+          config,
+        });
+        return { text: extractText(response), last: response };
       },
-      body: JSON.stringify(requestBody),
-      signal: abortSignal,
-    });
+      { label: "Gemini", notifyFn, abortSignal },
+    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
+    const feedback = last?.promptFeedback;
+    if (feedback?.blockReason) {
       throw new Error(
-        `API request failed with status ${response.status}: ${errorText}`,
+        `Gemini blocked the prompt (${feedback.blockReason})${feedback.blockReasonMessage ? `: ${feedback.blockReasonMessage}` : ""}`,
       );
     }
 
-    const data = (await response.json()) as GeminiResponse;
-
-    if (!data.candidates || data.candidates.length === 0) {
-      throw new Error("No response candidates returned from the API");
+    const candidate = last?.candidates?.[0];
+    const finishReason = candidate?.finishReason;
+    if (!text) {
+      if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        const flagged = (candidate?.safetyRatings ?? [])
+          .filter((rating) => rating.blocked)
+          .map((rating) => rating.category);
+        throw new Error(
+          `Gemini withheld the reply (finish reason ${finishReason})${flagged.length > 0 ? `, flagged: ${flagged.join(", ")}` : ""}`,
+        );
+      }
+      if (finishReason === FinishReason.MAX_TOKENS) {
+        throw new Error(
+          `Gemini reached maxOutputTokens before writing any text; raise maxOutputTokens or lower thinkingBudget`,
+        );
+      }
+      throw new Error(
+        `Gemini returned an empty reply${finishReason ? ` (finish reason ${finishReason})` : ""}`,
+      );
     }
 
-    return data.candidates[0].content.parts[0].text;
+    const usage = last?.usageMetadata;
+    return {
+      text,
+      usage:
+        usage?.promptTokenCount !== undefined
+          ? {
+              prompt: usage.promptTokenCount,
+              // Thinking tokens are billed as output
+              completion:
+                (usage.candidatesTokenCount ?? 0) +
+                (usage.thoughtsTokenCount ?? 0),
+              total:
+                usage.totalTokenCount ??
+                usage.promptTokenCount +
+                  (usage.candidatesTokenCount ?? 0) +
+                  (usage.thoughtsTokenCount ?? 0),
+            }
+          : estimateUsage(prompt, text),
+      finishReason,
+      latencyMs: Date.now() - startTime,
+    };
   } catch (error) {
     console.error("Error calling Gemini API:", error);
     throw error;
@@ -136,38 +234,17 @@ const program = new Command();
 
 // Function to list available models
 async function listModels(): Promise<void> {
-  const apiKey = process.env.GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY environment variable is not set");
-  }
+  const client = getGeminiClient();
 
   try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`,
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `API request failed with status ${response.status}: ${errorText}`,
-      );
-    }
-
-    const data = await response.json();
-
-    if (!data.models || !Array.isArray(data.models)) {
-      throw new Error("Invalid response format from API");
-    }
-
     console.log("Available models:");
     console.log("-----------------");
 
     // Group models by family (Gemini 1.5, 2.0, 2.5, etc)
-    const modelsByFamily: Record<string, any[]> = {};
+    const modelsByFamily: Record<string, { name: string; displayName?: string }[]> = {};
 
-    data.models.forEach((model: any) => {
-      const name = model.name.replace("models/", "");
+    for await (const model of await client.models.list()) {
+      const name = (model.name ?? "").replace("models/", "");
 
       // Extract family from name (gemini-1.5, gemini-2.0, etc)
       let family = "Other";
@@ -183,9 +260,8 @@ async function listModels(): Promise<void> {
       modelsByFamily[family].push({
         name,
         displayName: model.displayName,
-        description: model.description,
       });
-    });
+    }
 
     // Display models by family
     Object.keys(modelsByFamily)
@@ -299,10 +375,10 @@ program
       const response = await sendGeminiPrompt(prompt, generationOptions);
 
       if (options.output) {
-        fs.writeFileSync(path.resolve(options.output), response);
+        fs.writeFileSync(path.resolve(options.output), response.text);
         console.log(`Response written to ${options.output}`);
       } else {
-        console.log(response);
+        console.log(response.text);
       }
     } catch (error) {
       console.error(
@@ -313,4 +389,7 @@ program
     }
   });
 
-program.parse();
+// Only run the CLI when executed directly, not when the provider imports this module
+if (require.main === module) {
+  program.parse();
+}
@@ -8,28 +8,43 @@ import { randomUUID } from "crypto";
 import { z } from "zod";
 import * as fs from "fs";
 import * as path from "path";
-import { analyzeXmlTokens } from "./tokenCounter";
+import { analyzeXmlTokens, countTokens } from "./tokenCounter";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { packFilesSync } from "./pack";
 
 // Import shared functions from gemini.ts and openai.ts
 import {
+  ModelSelection,
   selectModelBasedOnTokens,
-  sendToModel,
+  sendWithFallback,
+  calculateCost,
 } from "./modelManager";
-import { getModelById } from "./modelConfig";
+import { getModelById, getModelByName } from "./modelConfig";
+import {
+  getProvider,
+  getProviders,
+  isProviderConfigured,
+} from "./providers";
 
 // Import strategy registry
 import { getStrategy } from "./strategies/registry";
-import { ToolType } from "./types/public";
+import { ToolType, CostBreakdown, CostEstimate } from "./types/public";
+import { createProgressReporter } from "./utils/progress";
+import { applyEdits, formatApplyReport } from "./utils/applyEdits";
+import { getRepairAttempts, repairReview } from "./utils/reviewValidator";
 
 // Import the new debate orchestrator and the legacy adapter
-import { runDebate } from "./orchestrator/debateOrchestrator";
+import {
+  runDebate,
+  estimateDebate,
+  DEFAULT_COMPLETION_ESTIMATE,
+} from "./orchestrator/debateOrchestrator";
 
 // Load all strategies to ensure they register themselves
 
 import "./strategies/opinionStrategy";
 import "./strategies/reviewStrategy";
+import "./strategies/planStrategy";
 
 async function packFiles(paths: string[]): Promise<string> {
   if (paths.length === 0) {
@@ -68,6 +83,145 @@ ${prompt}
 }
 
 
+/**
+ * Builds the expert review prompt that requests SEARCH/REPLACE formatting.
+ * @param instruction - The changes the user asked for
+ * @returns The review prompt to combine with the packed files
+ */
+function createExpertReviewPrompt(instruction: string): string {
+  return `
+        Act as an expert software developer.
+        Always use best practices when coding.
+        Respect and use existing conventions, libraries, etc that are already present in the code base.
+
+        The following instruction describes the changes needed:
+        ${instruction}
+
+        Use the following to describe and format the change.
+
+        Describe each change with a *SEARCH/REPLACE block* per the examples below.
+
+        Put the file's full path on its own line directly above each block.
+        ALWAYS use the full path, use the files structure to find the right file path otherwise see if user request has it.
+
+        All changes to files must use this *SEARCH/REPLACE block* format.
+        ONLY EVER RETURN CODE IN A *SEARCH/REPLACE BLOCK*!
+
+        Some of the changes may not be relevant to some files - SKIP THOSE IN YOUR RESPONSE.
+
+        Provide rationale for each change above each SEARCH/REPLACE block.
+
+        Make sure search block exists in original file, copied exactly and without the line numbers shown in the context.
+        To create a new file, leave the search block empty and put the whole file in the replace block.
+
+        Please make sure the block is formatted correctly with \`<<<<<<< SEARCH\`, \`=======\` and \`>>>>>>> REPLACE\` as shown below.
+
+        EXAMPLE:
+
+        /home/user/project/mathweb/app.py
+        \`\`\`\`\`\`
+        <<<<<<< SEARCH
+        from flask import Flask
+        =======
+        import math
+        from flask import Flask
+        >>>>>>> REPLACE
+        \`\`\`\`\`\`
+
+        /home/user/project/mathweb/app.py
+        \`\`\`\`\`\`
+        <<<<<<< SEARCH
+        def factorial(n):
+            "compute factorial"
+
+            if n == 0:
+                return 1
+            else:
+                return n * factorial(n-1)
+
+        =======
+        >>>>>>> REPLACE
+        \`\`\`\`\`\`
+
+        /home/user/project/mathweb/app.py
+        \`\`\`\`\`\`
+        <<<<<<< SEARCH
+            return str(factorial(n))
+        =======
+            return str(math.factorial(n))
+        >>>>>>> REPLACE
+        \`\`\`\`\`\`
+        `;
+}
+
+/**
+ * Builds the implementation plan prompt for single-model planning.
+ * @param prompt - The feature or change the user wants planned
+ * @returns The plan prompt to combine with the packed files
+ */
+function createPlanPrompt(prompt: string): string {
+  return `
+Act as an expert software architect.
+Respect and use existing conventions, libraries, etc that are already present in the code base.
+
+Write a step-by-step implementation plan for:
+${prompt}
+
+Return ONLY the plan in Markdown under the heading "# Implementation Plan".
+
+The plan should include:
+1. Components/files to be created or modified
+2. Data structures and interfaces
+3. Key functions and their purposes
+4. Implementation steps in priority order
+5. Potential challenges and solutions
+6. Testing approach
+`;
+}
+
+/**
+ * Builds the error returned when the combined content cannot be sent to any model.
+ * @param selection - The model selection that failed the token check
+ * @param inputName - What the user should shorten ("prompt" or "instruction")
+ * @returns The error message for the tool response
+ */
+function getTokenLimitErrorMessage(
+  selection: ModelSelection,
+  inputName: string,
+): string {
+  const { modelName, modelType, tokenCount, tokenLimit } = selection;
+
+  // Get token limits from config for error messages
+  const gpt5Model = getModelById('gpt5');
+  const geminiModel = getModelById('gemini25pro');
+  const gpt5Limit = gpt5Model ? gpt5Model.tokenLimit : 400000;
+  const geminiLimit = geminiModel ? geminiModel.tokenLimit : 1000000;
+
+  if (modelName === "none" && tokenLimit === 0) {
+    // No API keys available
+    return `Error: No API keys available. Please set OPENAI_API_KEY for contexts up to ${gpt5Limit.toLocaleString()} tokens or GEMINI_API_KEY for contexts up to ${geminiLimit.toLocaleString()} tokens.`;
+  }
+
+  if (modelType === "openai" && !isProviderConfigured("openai")) {
+    // Missing OpenAI API key
+    return `Error: OpenAI API key not set. This content (${tokenCount.toLocaleString()} tokens) could be processed by GPT-5, but OPENAI_API_KEY is missing. Please set the environment variable or use a smaller context.`;
+  }
+
+  if (modelType === "gemini" && !isProviderConfigured("gemini")) {
+    // Missing Gemini API key
+    return `Error: Gemini API key not set. This content (${tokenCount.toLocaleString()} tokens) requires Gemini's larger context window, but GEMINI_API_KEY is missing. Please set the environment variable.`;
+  }
+
+  const provider = getProvider(modelType);
+  if (provider && !provider.isConfigured()) {
+    // Any other provider that is not set up
+    return `Error: ${provider.displayName} is not configured. This content (${tokenCount.toLocaleString()} tokens) needs a ${provider.displayName} model. Please configure it or use a smaller context.`;
+  }
+
+  // Content exceeds all available model limits
+  return `Error: The combined content (${tokenCount.toLocaleString()} tokens) exceeds the maximum token limit for all available models (GPT-5: ${gpt5Limit.toLocaleString()}, Gemini: ${geminiLimit.toLocaleString()} tokens). Please reduce the number of files or shorten the ${inputName}.`;
+}
+
 /**
  * Creates the MCP server with the sage tool
  * @returns Configured MCP server
@@ -111,11 +265,17 @@ function createServer(): McpServer {
         .boolean()
         .describe("Set to true when a multi-model debate should ensue (e.g., when the user mentions 'sages' plural)."),
     },
-    async ({ prompt, paths, debate }, { sendNotification }) => {
+    async ({ prompt, paths, debate }, { sendNotification, signal, _meta }) => {
       try {
         // Pack the files up front - we'll need them in either case
         const packedFiles = await packFiles(paths);
 
+        // Stream model output as progress when the client asked for it
+        const progress =
+          _meta?.progressToken !== undefined
+            ? createProgressReporter(_meta.progressToken, sendNotification)
+            : undefined;
+
         // Check if debate is enabled
         if (debate) {
           await sendNotification({
@@ -138,7 +298,6 @@ function createServer(): McpServer {
               codeContext: packedFiles, // Add packed files as context
               debateConfig: {
                 enabled: true,
-                rounds: 1,
                 logLevel: "debug",
               },
             },
@@ -152,6 +311,8 @@ function createServer(): McpServer {
                 },
               });
             },
+            signal,
+            progress,
           );
 
           return {
@@ -196,38 +357,15 @@ function createServer(): McpServer {
         });
 
         if (!withinLimit) {
-          // Handle different error cases
-          let errorMsg = "";
-
-          if (modelName === "none" && tokenLimit === 0) {
-            // No API keys available
-            // Get token limits from config for error message
-            const gpt5Model = getModelById('gpt5');
-            const geminiModel = getModelById('gemini25pro');
-            const gpt5Limit = gpt5Model ? gpt5Model.tokenLimit : 400000;
-            const geminiLimit = geminiModel ? geminiModel.tokenLimit : 1000000;
-            errorMsg = `Error: No API keys available. Please set OPENAI_API_KEY for contexts up to ${gpt5Limit.toLocaleString()} tokens or GEMINI_API_KEY for contexts up to ${geminiLimit.toLocaleString()} tokens.`;
-          } else if (modelType === "openai" && !process.env.OPENAI_API_KEY) {
-            // Missing OpenAI API key
-            errorMsg = `Error: OpenAI API key not set. This content (${tokenCount.toLocaleString()} tokens) could be processed by GPT-5, but OPENAI_API_KEY is missing. Please set the environment variable or use a smaller context.`;
-          } else if (modelType === "gemini" && !process.env.GEMINI_API_KEY) {
-            // Missing Gemini API key
-            errorMsg = `Error: Gemini API key not set. This content (${tokenCount.toLocaleString()} tokens) requires Gemini's larger context window, but GEMINI_API_KEY is missing. Please set the environment variable.`;
-          } else {
-            // Content exceeds all available model limits
-            // Get token limits from config for error message
-            const gpt5Model = getModelById('gpt5');
-            const geminiModel = getModelById('gemini25pro');
-            const gpt5Limit = gpt5Model ? gpt5Model.tokenLimit : 400000;
-            const geminiLimit = geminiModel ? geminiModel.tokenLimit : 1000000;
-            errorMsg = `Error: The combined content (${tokenCount.toLocaleString()} tokens) exceeds the maximum token limit for all available models (GPT-5: ${gpt5Limit.toLocaleString()}, Gemini: ${geminiLimit.toLocaleString()} tokens). Please reduce the number of files or shorten the prompt.`;
-          }
+          const errorMsg = getTokenLimitErrorMessage(modelSelection, "prompt");
 
           await sendNotification({
             method: "notifications/message",
             params: {
               level: "error",
-              data: `Request blocked: ${process.env.OPENAI_API_KEY ? "OpenAI API available. " : "OpenAI API unavailable. "}${process.env.GEMINI_API_KEY ? "Gemini available." : "Gemini unavailable."}`,
+              data: `Request blocked: ${getProviders()
+                .map((p) => `${p.displayName} ${p.isConfigured() ? "available" : "unavailable"}.`)
+                .join(" ")}`,
             },
           });
 
@@ -238,20 +376,25 @@ function createServer(): McpServer {
         }
 
         // Send to appropriate model based on selection with fallback capability
-        const startTime = Date.now();
-        const response = await sendToModel(
+        const response = await sendWithFallback(
           combined,
           { modelName, modelType, tokenCount },
+          "opinion",
           sendNotification,
+          signal,
+          progress,
         );
 
-        const elapsedTime = Date.now() - startTime;
+        const cost: CostBreakdown = {
+          totalUsd: response.costUsd ?? 0,
+          perModel: { [response.modelName]: response.costUsd ?? 0 },
+        };
 
         await sendNotification({
           method: "notifications/message",
           params: {
             level: "info",
-            data: `Received response from ${modelName} in ${elapsedTime}ms`,
+            data: `Received response from ${response.modelName} in ${response.latencyMs}ms (${response.usage.prompt.toLocaleString()} prompt + ${response.usage.completion.toLocaleString()} completion tokens, $${cost.totalUsd.toFixed(4)})`,
           },
         });
 
@@ -259,9 +402,14 @@ function createServer(): McpServer {
           content: [
             {
               type: "text",
-              text: response,
+              text: response.text,
             },
           ],
+          metadata: {
+            usage: response.usage,
+            cost,
+            fallbacks: response.fallbacks,
+          },
         };
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
@@ -311,9 +459,80 @@ function createServer(): McpServer {
         .boolean()
         .optional()
         .describe("Set to true when a multi-model debate should ensue"),
+      mergeEdits: z
+        .boolean()
+        .optional()
+        .describe(
+          "With debate, keep the non-conflicting edits of every model's review instead of picking one review; the judge only settles conflicting edits",
+        ),
     },
-    async ({ instruction, paths, debate }, { sendNotification }) => {
+    async (
+      { instruction, paths, debate, mergeEdits },
+      { sendNotification, signal, _meta },
+    ) => {
       try {
+        // Pack the files up front - we'll need them in either case
+        const packedFiles = await packFiles(paths);
+
+        // Stream model output as progress when the client asked for it
+        const progress =
+          _meta?.progressToken !== undefined
+            ? createProgressReporter(_meta.progressToken, sendNotification)
+            : undefined;
+
+        // Create the expert review prompt that requests SEARCH/REPLACE formatting
+        const expertReviewPrompt = createExpertReviewPrompt(instruction);
+
+        // Combine with the prompt
+        const combined = combinePromptWithContext(
+          packedFiles,
+          expertReviewPrompt,
+        );
+
+        // Select model based on token count and get token information
+        const modelSelection = selectModelBasedOnTokens(combined, 'review');
+        const { modelName, modelType, tokenCount, withinLimit, tokenLimit } =
+          modelSelection;
+
+        // Log token usage via MCP logging notification
+        await sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "debug",
+            data: `Token usage: ${tokenCount.toLocaleString()} tokens. Selected model: ${modelName} (limit: ${tokenLimit.toLocaleString()} tokens)`,
+          },
+        });
+
+        await sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "debug",
+            data: `Files included: ${paths.length}, Document count: ${analyzeXmlTokens(combined).documentCount}`,
+          },
+        });
+
+        if (!withinLimit) {
+          const errorMsg = getTokenLimitErrorMessage(
+            modelSelection,
+            "instruction",
+          );
+
+          await sendNotification({
+            method: "notifications/message",
+            params: {
+              level: "error",
+              data: `Request blocked: ${getProviders()
+                .map((p) => `${p.displayName} ${p.isConfigured() ? "available" : "unavailable"}.`)
+                .join(" ")}`,
+            },
+          });
+
+          return {
+            content: [{ type: "text", text: errorMsg }],
+            isError: true,
+          };
+        }
+
         // Check if debate is enabled
         if (debate) {
           await sendNotification({
@@ -333,10 +552,11 @@ function createServer(): McpServer {
             {
               toolType: ToolType.Review,
               userPrompt: instruction,
+              codeContext: packedFiles,
               debateConfig: {
                 enabled: true,
-                rounds: 1,
                 logLevel: "debug",
+                mergeEdits,
               },
             },
             async (notification) => {
@@ -345,6 +565,8 @@ function createServer(): McpServer {
                 params: notification,
               });
             },
+            signal,
+            progress,
           );
 
           return {
@@ -363,77 +585,257 @@ function createServer(): McpServer {
           };
         }
 
-        // Pack the files
-        const packedFiles = await packFiles(paths);
+        // Send to appropriate model based on selection with fallback capability
+        const response = await sendWithFallback(
+          combined,
+          { modelName, modelType, tokenCount },
+          "review",
+          sendNotification,
+          signal,
+          progress,
+        );
 
-        // Create the expert review prompt that requests SEARCH/REPLACE formatting
-        const expertReviewPrompt = `
-        Act as an expert software developer.
-        Always use best practices when coding.
-        Respect and use existing conventions, libraries, etc that are already present in the code base.
+        const cost: CostBreakdown = {
+          totalUsd: response.costUsd ?? 0,
+          perModel: { [response.modelName]: response.costUsd ?? 0 },
+        };
+        const usage = { ...response.usage };
+        const fallbacks = [...response.fallbacks];
 
-        The following instruction describes the changes needed:
-        ${instruction}
+        await sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "info",
+            data: `Received response from ${response.modelName} in ${response.latencyMs}ms (${response.usage.prompt.toLocaleString()} prompt + ${response.usage.completion.toLocaleString()} completion tokens, $${cost.totalUsd.toFixed(4)})`,
+          },
+        });
 
-        Use the following to describe and format the change.
+        // Check the blocks against the packed files; failing ones go back to the same model
+        const { review, validation } = await repairReview(
+          response.text,
+          packedFiles,
+          async (repairPrompt) => {
+            // The repair prompt repeats the packed files, so it may not fit the model that answered
+            const repairModel = getModelByName(response.modelName);
+            const repairTokenCount = countTokens(repairPrompt);
+            const repairLimit = repairModel?.tokenLimit ?? tokenLimit;
+            if (repairTokenCount > repairLimit) {
+              await sendNotification({
+                method: "notifications/message",
+                params: {
+                  level: "warning",
+                  data: `Skipping the repair of SEARCH/REPLACE blocks: the repair prompt (${repairTokenCount.toLocaleString()} tokens) exceeds ${response.modelName}'s token limit (${repairLimit.toLocaleString()} tokens)`,
+                },
+              });
+              return undefined;
+            }
+
+            await sendNotification({
+              method: "notifications/message",
+              params: {
+                level: "info",
+                data: `Asking ${response.modelName} to repair SEARCH/REPLACE blocks that do not match the files`,
+              },
+            });
 
-        Describe each change with a *SEARCH/REPLACE block* per the examples below.
+            const repair = await sendWithFallback(
+              repairPrompt,
+              {
+                modelName: response.modelName,
+                modelType: repairModel?.type ?? modelType,
+                tokenCount: repairTokenCount,
+              },
+              "review",
+              sendNotification,
+              signal,
+              progress,
+            );
+
+            cost.totalUsd += repair.costUsd ?? 0;
+            cost.perModel[repair.modelName] =
+              (cost.perModel[repair.modelName] ?? 0) + (repair.costUsd ?? 0);
+            usage.prompt += repair.usage.prompt;
+            usage.completion += repair.usage.completion;
+            usage.total += repair.usage.total;
+            fallbacks.push(...repair.fallbacks);
+            return repair.text;
+          },
+        );
 
-        ALWAYS use the full path, use the files structure to find the right file path otherwise see if user request has it.
+        if (validation.failures.length > 0) {
+          await sendNotification({
+            method: "notifications/message",
+            params: {
+              level: "warning",
+              data: `${validation.failures.length} SEARCH/REPLACE block(s) still fail validation: ${validation.failures
+                .map((f) => `line ${f.line}${f.filePath ? ` (${f.filePath})` : ""}: ${f.error}`)
+                .join("; ")}`,
+            },
+          });
+        }
 
-        All changes to files must use this *SEARCH/REPLACE block* format.
-        ONLY EVER RETURN CODE IN A *SEARCH/REPLACE BLOCK*!
+        return {
+          content: [
+            {
+              type: "text",
+              text: review,
+            },
+          ],
+          metadata: {
+            usage,
+            cost,
+            fallbacks,
+            validation,
+          },
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        await sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "error",
+            data: `Error in expert-review tool: ${errorMsg}`,
+          },
+        });
 
-        Some of the changes may not be relevant to some files - SKIP THOSE IN YOUR RESPONSE.
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMsg}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
 
-        Provide rationale for each change above each SEARCH/REPLACE block.
+  // Add the tool that writes sage-review edits to disk
+  server.tool(
+    "sage-apply",
+    `Apply the SEARCH/REPLACE blocks from a sage-review response to the files they name.
 
-        Make sure search block exists in original file and is NOT empty.
+    Each block's SEARCH text must occur exactly once in its file. If any block fails, no file is changed; the response reports each block as applied, failed or skipped.
 
-        Please make sure the block is formatted correctly with \`<<<<<<< SEARCH\`, \`=======\` and \`>>>>>>> REPLACE\` as shown below.
+    Set dryRun to true to get a unified diff of the changes without writing anything. Prefer a dry run first when the user wants to inspect the edits.`,
+    {
+      review: z
+        .string()
+        .describe("The sage-review response containing the SEARCH/REPLACE blocks."),
+      rootDir: z
+        .string()
+        .describe(
+          "Absolute project directory. Relative file paths in the blocks are resolved against it, and every file must be inside it.",
+        ),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe("Set to true to return a unified diff instead of writing the files."),
+    },
+    async ({ review, rootDir, dryRun }, { sendNotification }) => {
+      try {
+        const result = applyEdits(review, { rootDir, dryRun });
 
-        EXAMPLE:
+        await sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "info",
+            data: result.dryRun
+              ? `Dry run of ${result.blocks.length} SEARCH/REPLACE blocks touching ${result.files.length} file(s)`
+              : result.written
+                ? `Wrote ${result.files.length} file(s): ${result.files.join(", ")}`
+                : "No files were changed",
+          },
+        });
 
-        \`\`\`\`\`\`
-        <<<<<<< SEARCH
-        from flask import Flask
-        =======
-        import math
-        from flask import Flask
-        >>>>>>> REPLACE
-        \`\`\`\`\`\`
+        const failed =
+          result.errors.length > 0 ||
+          result.blocks.length === 0 ||
+          result.blocks.some((block) => block.status === "failed");
 
-        \`\`\`\`\`\`
-        <<<<<<< SEARCH
-        def factorial(n):
-            "compute factorial"
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatApplyReport(result),
+            },
+          ],
+          isError: !result.dryRun && failed,
+          metadata: {
+            written: result.written,
+            files: result.files,
+            blocks: result.blocks,
+          },
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        await sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "error",
+            data: `Error in sage-apply tool: ${errorMsg}`,
+          },
+        });
 
-            if n == 0:
-                return 1
-            else:
-                return n * factorial(n-1)
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMsg}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
 
-        =======
-        >>>>>>> REPLACE
-        \`\`\`\`\`\`
+  // Add the implementation-plan tool
+  server.tool(
+    "sage-plan",
+    `Send a feature request or change to the sage model and get back a step-by-step implementation plan.
 
-        \`\`\`\`\`\`
-        <<<<<<< SEARCH
-            return str(factorial(n))
-        =======
-            return str(math.factorial(n))
-        >>>>>>> REPLACE
-        \`\`\`\`\`\`
-        `;
+    Use this tool any time the user asks for a "sage plan", an "implementation plan" or how to build something in their code base.
 
-        // Combine with the prompt
+    Include the paths to all relevant files and/or directories that the plan should take into account.
+
+    IMPORTANT: All paths must be absolute paths (e.g., /home/user/project/src), not relative paths.
+
+    If the user mentions "sages" plural, or asks for a debate explicitly, set debate to true.`,
+    {
+      prompt: z
+        .string()
+        .describe("The feature or change to plan."),
+      paths: z
+        .array(z.string())
+        .describe(
+          "Paths to include as context. MUST be absolute paths (e.g., /home/user/project/src). Including directories will include all files contained within recursively.",
+        ),
+      debate: z
+        .boolean()
+        .optional()
+        .describe("Set to true when a multi-model debate should ensue"),
+    },
+    async ({ prompt, paths, debate }, { sendNotification, signal, _meta }) => {
+      try {
+        // Pack the files up front - we'll need them in either case
+        const packedFiles = await packFiles(paths);
+
+        // Stream model output as progress when the client asked for it
+        const progress =
+          _meta?.progressToken !== undefined
+            ? createProgressReporter(_meta.progressToken, sendNotification)
+            : undefined;
+
+        // Combine the plan request with the packed files
         const combined = combinePromptWithContext(
           packedFiles,
-          expertReviewPrompt,
+          createPlanPrompt(prompt),
         );
 
         // Select model based on token count and get token information
-        const modelSelection = selectModelBasedOnTokens(combined, 'review');
+        const modelSelection = selectModelBasedOnTokens(combined, 'plan');
         const { modelName, modelType, tokenCount, withinLimit, tokenLimit } =
           modelSelection;
 
@@ -446,47 +848,16 @@ function createServer(): McpServer {
           },
         });
 
-        await sendNotification({
-          method: "notifications/message",
-          params: {
-            level: "debug",
-            data: `Files included: ${paths.length}, Document count: ${analyzeXmlTokens(combined).documentCount}`,
-          },
-        });
-
         if (!withinLimit) {
-          // Handle different error cases
-          let errorMsg = "";
-
-          if (modelName === "none" && tokenLimit === 0) {
-            // No API keys available
-            // Get token limits from config for error message
-            const gpt5Model = getModelById('gpt5');
-            const geminiModel = getModelById('gemini25pro');
-            const gpt5Limit = gpt5Model ? gpt5Model.tokenLimit : 400000;
-            const geminiLimit = geminiModel ? geminiModel.tokenLimit : 1000000;
-            errorMsg = `Error: No API keys available. Please set OPENAI_API_KEY for contexts up to ${gpt5Limit.toLocaleString()} tokens or GEMINI_API_KEY for contexts up to ${geminiLimit.toLocaleString()} tokens.`;
-          } else if (modelType === "openai" && !process.env.OPENAI_API_KEY) {
-            // Missing OpenAI API key
-            errorMsg = `Error: OpenAI API key not set. This content (${tokenCount.toLocaleString()} tokens) could be processed by GPT-5, but OPENAI_API_KEY is missing. Please set the environment variable or use a smaller context.`;
-          } else if (modelType === "gemini" && !process.env.GEMINI_API_KEY) {
-            // Missing Gemini API key
-            errorMsg = `Error: Gemini API key not set. This content (${tokenCount.toLocaleString()} tokens) requires Gemini's larger context window, but GEMINI_API_KEY is missing. Please set the environment variable.`;
-          } else {
-            // Content exceeds all available model limits
-            // Get token limits from config for error message
-            const gpt5Model = getModelById('gpt5');
-            const geminiModel = getModelById('gemini25pro');
-            const gpt5Limit = gpt5Model ? gpt5Model.tokenLimit : 400000;
-            const geminiLimit = geminiModel ? geminiModel.tokenLimit : 1000000;
-            errorMsg = `Error: The combined content (${tokenCount.toLocaleString()} tokens) exceeds the maximum token limit for all available models (GPT-5: ${gpt5Limit.toLocaleString()}, Gemini: ${geminiLimit.toLocaleString()} tokens). Please reduce the number of files or shorten the instruction.`;
-          }
+          const errorMsg = getTokenLimitErrorMessage(modelSelection, "prompt");
 
           await sendNotification({
             method: "notifications/message",
             params: {
               level: "error",
-              data: `Request blocked: ${process.env.OPENAI_API_KEY ? "OpenAI API available. " : "OpenAI API unavailable. "}${process.env.GEMINI_API_KEY ? "Gemini available." : "Gemini unavailable."}`,
+              data: `Request blocked: ${getProviders()
+                .map((p) => `${p.displayName} ${p.isConfigured() ? "available" : "unavailable"}.`)
+                .join(" ")}`,
             },
           });
 
@@ -496,21 +867,77 @@ function createServer(): McpServer {
           };
         }
 
+        // Check if debate is enabled
+        if (debate) {
+          await sendNotification({
+            method: "notifications/message",
+            params: {
+              level: "info",
+              data: `Using debate mode for sage-plan`,
+            },
+          });
+
+          const strategy = await getStrategy(ToolType.Plan);
+          if (!strategy) {
+            throw new Error("Plan strategy not found");
+          }
+
+          const result = await runDebate(
+            {
+              toolType: ToolType.Plan,
+              userPrompt: prompt,
+              codeContext: packedFiles,
+              debateConfig: {
+                enabled: true,
+                logLevel: "debug",
+              },
+            },
+            async (notification) => {
+              await sendNotification({
+                method: "notifications/message",
+                params: notification,
+              });
+            },
+            signal,
+            progress,
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  "plan" in result
+                    ? result.plan
+                    : "Error: No plan generated",
+              },
+            ],
+            metadata: {
+              meta: result.meta,
+            },
+          };
+        }
+
         // Send to appropriate model based on selection with fallback capability
-        const startTime = Date.now();
-        const response = await sendToModel(
+        const response = await sendWithFallback(
           combined,
           { modelName, modelType, tokenCount },
+          "plan",
           sendNotification,
+          signal,
+          progress,
         );
 
-        const elapsedTime = Date.now() - startTime;
+        const cost: CostBreakdown = {
+          totalUsd: response.costUsd ?? 0,
+          perModel: { [response.modelName]: response.costUsd ?? 0 },
+        };
 
         await sendNotification({
           method: "notifications/message",
           params: {
             level: "info",
-            data: `Received response from ${modelName} in ${elapsedTime}ms`,
+            data: `Received response from ${response.modelName} in ${response.latencyMs}ms (${response.usage.prompt.toLocaleString()} prompt + ${response.usage.completion.toLocaleString()} completion tokens, $${cost.totalUsd.toFixed(4)})`,
           },
         });
 
@@ -518,9 +945,14 @@ function createServer(): McpServer {
           content: [
             {
               type: "text",
-              text: response,
+              text: response.text,
             },
           ],
+          metadata: {
+            usage: response.usage,
+            cost,
+            fallbacks: response.fallbacks,
+          },
         };
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
@@ -528,7 +960,141 @@ function createServer(): McpServer {
           method: "notifications/message",
           params: {
             level: "error",
-            data: `Error in expert-review tool: ${errorMsg}`,
+            data: `Error in sage-plan tool: ${errorMsg}`,
+          },
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMsg}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Add the dry-run estimate tool
+  server.tool(
+    "sage-estimate",
+    `Estimate what a sage-opinion, sage-review or sage-plan call would cost without sending anything to a model.
+
+    Use this tool before a large or debate-mode request to check which model would be chosen, how many tokens each file contributes, how many model calls would be made and the projected cost.
+
+    IMPORTANT: All paths must be absolute paths (e.g., /home/user/project/src), not relative paths.`,
+    {
+      tool: z
+        .enum(["opinion", "review", "plan"])
+        .describe("Which tool to estimate: 'opinion' for sage-opinion, 'review' for sage-review, 'plan' for sage-plan."),
+      prompt: z
+        .string()
+        .describe("The prompt (sage-opinion, sage-plan) or instruction (sage-review) that would be sent."),
+      paths: z
+        .array(z.string())
+        .describe(
+          "Paths to include as context. MUST be absolute paths (e.g., /home/user/project/src). Including directories will include all files contained within recursively.",
+        ),
+      debate: z
+        .boolean()
+        .optional()
+        .describe("Set to true to estimate a multi-model debate instead of a single call."),
+      mergeEdits: z
+        .boolean()
+        .optional()
+        .describe("With debate and tool 'review', include the judge call that settles conflicting edits."),
+    },
+    async ({ tool, prompt, paths, debate, mergeEdits }, { sendNotification }) => {
+      try {
+        const packedFiles = await packFiles(paths);
+        const combined = combinePromptWithContext(
+          packedFiles,
+          tool === "review"
+            ? createExpertReviewPrompt(prompt)
+            : tool === "plan"
+              ? createPlanPrompt(prompt)
+              : prompt,
+        );
+
+        // Same selection the real tool would make
+        const modelSelection = selectModelBasedOnTokens(combined, tool);
+        const { modelName, tokenCount } = modelSelection;
+        const { documents } = analyzeXmlTokens(packedFiles);
+
+        let estimate: CostEstimate;
+        if (debate) {
+          estimate = estimateDebate({
+            toolType: {
+              opinion: ToolType.Opinion,
+              review: ToolType.Review,
+              plan: ToolType.Plan,
+            }[tool],
+            contextTokens: tokenCount,
+            mergeEdits,
+          });
+        } else {
+          const model = getModelByName(modelName);
+          // Reviews may send each repair request back to the same model
+          const repairs = tool === "review" ? getRepairAttempts() : 0;
+          const repairTokens = tokenCount + DEFAULT_COMPLETION_ESTIMATE;
+          const promptTokens = tokenCount + repairs * repairTokens;
+          const completionTokens = (1 + repairs) * DEFAULT_COMPLETION_ESTIMATE;
+          estimate = {
+            calls: model ? 1 + repairs : 0,
+            promptTokens,
+            completionTokens,
+            costUsd: model
+              ? calculateCost(model, {
+                  prompt: promptTokens,
+                  completion: completionTokens,
+                })
+              : 0,
+          };
+        }
+
+        await sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "info",
+            data: `Estimate for sage-${tool}${debate ? " (debate)" : ""}: ${estimate.calls} call(s), ~$${estimate.costUsd.toFixed(4)}`,
+          },
+        });
+
+        const result = {
+          tool: `sage-${tool}`,
+          debate: !!debate,
+          model: modelSelection,
+          tokenLimitError: modelSelection.withinLimit
+            ? undefined
+            : getTokenLimitErrorMessage(
+                modelSelection,
+                tool === "review" ? "instruction" : "prompt",
+              ),
+          documents: documents.map((doc) => ({
+            path: doc.path,
+            tokenCount: doc.tokenCount,
+          })),
+          estimate,
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          metadata: result,
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        await sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "error",
+            data: `Error in sage-estimate tool: ${errorMsg}`,
           },
         });
 
@@ -559,7 +1125,7 @@ async function startStdioServer() {
 
     // Use console.error for server messages since it won't interfere with stdout JSON-RPC
     console.error(
-      'MCP Sage Server started with stdio transport. Available tools: "sage-opinion" and "sage-review".',
+      'MCP Sage Server started with stdio transport. Available tools: "sage-opinion", "sage-review", "sage-apply", "sage-plan" and "sage-estimate".',
     );
   } catch (error) {
     console.error("Error starting MCP server with stdio transport:", error);
@@ -669,7 +1235,7 @@ async function startHttpServer(port: number = 3000) {
   app.listen(port, () => {
     // Use console.error for server messages since it won't interfere with stdout JSON-RPC
     console.error(
-      `MCP Sage Server listening on port ${port}. Available tools: "sage-opinion" and "sage-review".`,
+      `MCP Sage Server listening on port ${port}. Available tools: "sage-opinion", "sage-review", "sage-apply", "sage-plan" and "sage-estimate".`,
     );
   });
 }
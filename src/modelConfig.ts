@@ -10,6 +10,28 @@ import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { fileURLToPath } from 'url';
 import { ModelType } from './modelDefinitions';
+import type { RetryPolicy } from './utils/retry';
+
+/**
+ * Gemini safety setting, e.g. { category: HARM_CATEGORY_HARASSMENT, threshold: BLOCK_ONLY_HIGH }
+ */
+export interface SafetySettingDef {
+  category: string;
+  threshold: string;
+}
+
+/**
+ * Generation parameters that can be set globally, per model and per tool
+ */
+export interface ModelParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  systemInstruction?: string;
+  thinkingBudget?: number; // Gemini only
+  safetySettings?: SafetySettingDef[]; // Gemini only
+}
 
 /**
  * Model definition from YAML
@@ -20,15 +42,28 @@ export interface ModelDef {
   tokenLimit: number;
   costPerInputToken: number;
   costPerOutputToken: number;
+  baseUrl?: string; // Server URL for openai-compatible models, e.g. http://localhost:8000/v1
+  apiKeyEnv?: string; // Env var holding the API key for openai-compatible models; omit for keyless servers
+  defaultParams?: ModelParams; // Overrides defaults for this model
 }
 
+/**
+ * How votes from a judge panel are combined
+ */
+export type JudgeAggregation = 'majority' | 'confidence';
+
 /**
  * Tool-specific configuration
  */
 export interface ToolConfig {
   debateParticipants: string[];
   judgeModel: string;
+  judgePanel?: string[];
+  judgeAggregation?: JudgeAggregation;
+  rounds?: number; // Debate rounds when the request does not set them
+  consensusThreshold?: number; // Consensus score (0-1) that ends a debate early
   preferredModels: string[];
+  params?: ModelParams; // Overrides defaults and defaultParams for every model this tool calls
 }
 
 /**
@@ -38,11 +73,12 @@ export interface DefaultSettings {
   maxOutputTokens: number;
   temperature: number;
   enableFallback: boolean;
-  providerModels?: {
-    openai?: string;
-    gemini?: string;
-    anthropic?: string;
-  };
+  maxCostUsd?: number;
+  retry?: Partial<RetryPolicy>;
+  timeoutMs?: number; // Per-call timeout; 0 or omitted means none
+  phaseTimeoutMs?: Record<string, number>; // Per debate phase, overriding timeoutMs
+  reviewRepairAttempts?: number; // Repair requests for review blocks that fail validation; 0 disables
+  providerModels?: Record<string, string>; // Keyed by model type
 }
 
 /**
@@ -53,10 +89,16 @@ export interface ModelConfiguration {
   tools: {
     opinion: ToolConfig;
     review: ToolConfig;
+    plan: ToolConfig;
   };
   defaults: DefaultSettings;
 }
 
+/**
+ * Name of a tool section in models.yaml
+ */
+export type ToolName = keyof ModelConfiguration['tools'];
+
 /**
  * Singleton configuration instance
  */
@@ -103,12 +145,29 @@ function validateConfig(config: ModelConfiguration): void {
     throw new Error('Invalid configuration: missing models section');
   }
   
-  if (!config.tools || !config.tools.opinion || !config.tools.review) {
+  if (!config.tools || typeof config.tools !== 'object') {
     throw new Error('Invalid configuration: missing tools section');
   }
+
+  // Configurations written before sage-plan existed have no plan section; plans debate like opinions
+  if (!config.tools.plan && config.tools.opinion) {
+    config.tools.plan = config.tools.opinion;
+  }
+
+  for (const tool of ['opinion', 'review', 'plan'] as const) {
+    if (!config.tools[tool]) {
+      throw new Error(`Invalid configuration: missing tools.${tool} section`);
+    }
+  }
   
+  for (const [modelId, model] of Object.entries(config.models)) {
+    if (model.type === 'openai-compatible' && !model.baseUrl) {
+      throw new Error(`Invalid configuration: openai-compatible model '${modelId}' must set baseUrl`);
+    }
+  }
+
   // Validate that referenced models exist
-  for (const tool of ['opinion', 'review'] as const) {
+  for (const tool of ['opinion', 'review', 'plan'] as const) {
     const toolConfig = config.tools[tool];
     
     // Check debate participants
@@ -123,6 +182,33 @@ function validateConfig(config: ModelConfiguration): void {
       throw new Error(`Invalid configuration: judge model '${toolConfig.judgeModel}' for ${tool} does not exist`);
     }
     
+    // Check judge panel
+    for (const modelId of toolConfig.judgePanel ?? []) {
+      if (!config.models[modelId]) {
+        throw new Error(`Invalid configuration: model '${modelId}' referenced in ${tool}.judgePanel does not exist`);
+      }
+    }
+
+    if (
+      toolConfig.judgeAggregation !== undefined &&
+      toolConfig.judgeAggregation !== 'majority' &&
+      toolConfig.judgeAggregation !== 'confidence'
+    ) {
+      throw new Error(`Invalid configuration: ${tool}.judgeAggregation must be 'majority' or 'confidence'`);
+    }
+
+    if (
+      toolConfig.rounds !== undefined &&
+      (!Number.isInteger(toolConfig.rounds) || toolConfig.rounds < 1)
+    ) {
+      throw new Error(`Invalid configuration: ${tool}.rounds must be a positive integer`);
+    }
+
+    const threshold = toolConfig.consensusThreshold;
+    if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0 || threshold > 1)) {
+      throw new Error(`Invalid configuration: ${tool}.consensusThreshold must be a number from 0 to 1`);
+    }
+    
     // Check preferred models
     for (const modelId of toolConfig.preferredModels) {
       if (!config.models[modelId]) {
@@ -130,6 +216,40 @@ function validateConfig(config: ModelConfiguration): void {
       }
     }
   }
+
+  const maxCostUsd = config.defaults?.maxCostUsd;
+  if (maxCostUsd !== undefined && (typeof maxCostUsd !== 'number' || maxCostUsd < 0)) {
+    throw new Error('Invalid configuration: defaults.maxCostUsd must be a non-negative number');
+  }
+
+  const retry = config.defaults?.retry;
+  if (retry) {
+    for (const [key, value] of Object.entries(retry)) {
+      if (typeof value !== 'number' || value < 0) {
+        throw new Error(`Invalid configuration: defaults.retry.${key} must be a non-negative number`);
+      }
+    }
+  }
+
+  const timeouts: Record<string, unknown> = {
+    timeoutMs: config.defaults?.timeoutMs,
+    ...Object.fromEntries(
+      Object.entries(config.defaults?.phaseTimeoutMs ?? {}).map(([phase, value]) => [
+        `phaseTimeoutMs.${phase}`,
+        value,
+      ]),
+    ),
+  };
+  for (const [key, value] of Object.entries(timeouts)) {
+    if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+      throw new Error(`Invalid configuration: defaults.${key} must be a non-negative number`);
+    }
+  }
+
+  const repairAttempts = config.defaults?.reviewRepairAttempts;
+  if (repairAttempts !== undefined && (!Number.isInteger(repairAttempts) || repairAttempts < 0)) {
+    throw new Error('Invalid configuration: defaults.reviewRepairAttempts must be a non-negative integer');
+  }
 }
 
 /**
@@ -140,10 +260,45 @@ export function getModelById(modelId: string): ModelDef | undefined {
   return config.models[modelId];
 }
 
+/**
+ * Get model definition by its provider model name
+ */
+export function getModelByName(modelName: string): ModelDef | undefined {
+  const config = loadModelConfig();
+  return Object.values(config.models).find((model) => model.name === modelName);
+}
+
+/**
+ * Resolve the generation parameters for a model: global defaults, then the
+ * model's defaultParams, then the tool's params
+ */
+export function getModelParams(modelName: string, tool?: ToolName): ModelParams {
+  const config = loadModelConfig();
+  const model = getModelByName(modelName);
+  const toolParams = tool ? config.tools[tool].params : undefined;
+
+  return {
+    temperature: config.defaults?.temperature,
+    maxOutputTokens: config.defaults?.maxOutputTokens,
+    ...model?.defaultParams,
+    ...toolParams,
+  };
+}
+
+/**
+ * Resolve the timeout for one model call: the phase's entry in
+ * defaults.phaseTimeoutMs, else defaults.timeoutMs
+ * @returns Milliseconds, or 0 for no timeout
+ */
+export function getTimeoutMs(phase?: string): number {
+  const defaults = loadModelConfig().defaults;
+  return (phase ? defaults?.phaseTimeoutMs?.[phase] : undefined) ?? defaults?.timeoutMs ?? 0;
+}
+
 /**
  * Get tool configuration
  */
-export function getToolConfig(tool: 'opinion' | 'review'): ToolConfig {
+export function getToolConfig(tool: ToolName): ToolConfig {
   const config = loadModelConfig();
   return config.tools[tool];
 }
@@ -167,7 +322,7 @@ export function getAllModelIds(): string[] {
 /**
  * Get default model for a provider
  */
-export function getProviderDefaultModel(provider: 'openai' | 'gemini' | 'anthropic'): string | undefined {
+export function getProviderDefaultModel(provider: ModelType): string | undefined {
   const config = loadModelConfig();
   return config.defaults?.providerModels?.[provider];
 }
@@ -5,12 +5,13 @@
  * All model definitions are loaded from models.yaml.
  */
 
-import { loadModelConfig, getModelById } from './modelConfig';
+import { loadModelConfig, getModelById, ModelParams } from './modelConfig';
 
 /**
- * Model type definition
+ * Model type definition - the `type` of a provider registered in providers/registry.ts
+ * (built in: "openai", "gemini", "anthropic")
  */
-export type ModelType = "openai" | "gemini" | "anthropic";
+export type ModelType = string;
 
 /**
  * Model information and capabilities
@@ -22,7 +23,28 @@ export interface ModelConfig {
   costPerInputToken: number;
   costPerOutputToken: number;
   available?: boolean;
-  defaultParams?: Record<string, any>;
+  defaultParams?: ModelParams;
+}
+
+/**
+ * Token usage reported by a provider for a single request
+ */
+export interface ModelUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+  estimated?: boolean; // True when the provider did not report usage and it was counted locally
+}
+
+/**
+ * Structured result of a single model request
+ */
+export interface ModelResult {
+  text: string;
+  usage: ModelUsage;
+  finishReason?: string; // Provider's raw stop reason, e.g. "stop", "end_turn", "MAX_TOKENS"
+  latencyMs: number; // Wall-clock time for the request, including any retries
+  costUsd?: number; // Priced from models.yaml; undefined if the model has no pricing entry
 }
 
 /**
@@ -41,6 +63,7 @@ function getModels(): Record<string, ModelConfig> {
       tokenLimit: modelDef.tokenLimit,
       costPerInputToken: modelDef.costPerInputToken,
       costPerOutputToken: modelDef.costPerOutputToken,
+      defaultParams: modelDef.defaultParams,
     };
   }
   
@@ -65,5 +88,6 @@ export function getModel(modelId: string): ModelConfig | undefined {
     tokenLimit: modelDef.tokenLimit,
     costPerInputToken: modelDef.costPerInputToken,
     costPerOutputToken: modelDef.costPerOutputToken,
+    defaultParams: modelDef.defaultParams,
   };
 }
\ No newline at end of file
@@ -1,25 +1,24 @@
 /* Centralised model management logic */
 
 import { analyzeXmlTokens } from "./tokenCounter";
-import { sendGeminiPrompt } from "./gemini";
-import { sendOpenAiPrompt } from "./openai";
-import { sendAnthropicPrompt } from "./anthropic";
-import { ModelType, ModelConfig } from "./modelDefinitions";
-import { getModelById, getToolConfig, getDefaults } from "./modelConfig";
+import { getProvider, isProviderConfigured } from "./providers";
+import { ProviderProgressFn, ProviderSendOptions } from "./providers/providerTypes";
+import { ModelFallback } from "./types/public";
+import { isRetryableError } from "./utils/retry";
+import { ProgressReporter } from "./utils/progress";
+import { ModelType, ModelConfig, ModelResult, ModelUsage } from "./modelDefinitions";
+import {
+  getModelById,
+  getModelByName,
+  getModelParams,
+  getToolConfig,
+  getDefaults,
+  getTimeoutMs,
+  ToolName,
+} from "./modelConfig";
 
 // Re-export model types for convenience
-export { ModelType, ModelConfig };
-
-/**
- * Model selection result
- */
-export interface ModelSelection {
-  modelName: string;
-  modelType: ModelType;
-  tokenCount: number;
-  withinLimit: boolean;
-  tokenLimit: number;
-}
+export { ModelType, ModelConfig, ModelResult, ModelUsage };
 
 /**
  * Model selection result
@@ -35,11 +34,7 @@ export interface ModelSelection {
 /**
  * Get available models for debate participation
  */
-export function getAvailableModels(toolType: 'opinion' | 'review' = 'opinion'): ModelConfig[] {
-  const hasOpenAiKey = !!process.env.OPENAI_API_KEY;
-  const hasGeminiKey = !!process.env.GEMINI_API_KEY;
-  const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY;
-
+export function getAvailableModels(toolType: ToolName = 'opinion'): ModelConfig[] {
   const toolConfig = getToolConfig(toolType);
   const availableModels: ModelConfig[] = [];
 
@@ -48,19 +43,15 @@ export function getAvailableModels(toolType: 'opinion' | 'review' = 'opinion'):
     const model = getModelById(modelId);
     if (!model) continue;
     
-    // Check if we have the required API key
-    const hasKey = 
-      (model.type === 'openai' && hasOpenAiKey) ||
-      (model.type === 'gemini' && hasGeminiKey) ||
-      (model.type === 'anthropic' && hasAnthropicKey);
-    
-    if (hasKey) {
+    // Check if the model's provider is registered and configured
+    if (isProviderConfigured(model.type, model)) {
       availableModels.push({
         name: model.name,
         type: model.type,
         tokenLimit: model.tokenLimit,
         costPerInputToken: model.costPerInputToken,
         costPerOutputToken: model.costPerOutputToken,
+        defaultParams: model.defaultParams,
         available: true,
       });
     }
@@ -74,12 +65,20 @@ export function getAvailableModels(toolType: 'opinion' | 'review' = 'opinion'):
 ----------------------------------------------------------------------------*/
 export function selectModelBasedOnTokens(
   combined: string,
-  toolType: 'opinion' | 'review' = 'opinion'
+  toolType: ToolName = 'opinion'
 ): ModelSelection {
   const { totalTokens: tokenCount } = analyzeXmlTokens(combined);
-  const hasOpenAiKey = !!process.env.OPENAI_API_KEY;
-  const hasGeminiKey = !!process.env.GEMINI_API_KEY;
-  const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY;
+
+  // Count with each provider's tokenizer at most once
+  const providerCounts = new Map<string, number>();
+  const countFor = (modelType: ModelType, modelName: string): number => {
+    const provider = getProvider(modelType);
+    if (!provider) return tokenCount;
+    if (!providerCounts.has(modelType)) {
+      providerCounts.set(modelType, provider.countTokens(combined, modelName));
+    }
+    return providerCounts.get(modelType)!;
+  };
 
   const toolConfig = getToolConfig(toolType);
   
@@ -88,18 +87,16 @@ export function selectModelBasedOnTokens(
     const model = getModelById(modelId);
     if (!model) continue;
     
-    // Check if we have the required API key
-    const hasKey = 
-      (model.type === 'openai' && hasOpenAiKey) ||
-      (model.type === 'gemini' && hasGeminiKey) ||
-      (model.type === 'anthropic' && hasAnthropicKey);
-    
+    // Check if the model's provider is registered and configured
+    if (!isProviderConfigured(model.type, model)) continue;
+
     // Check if model fits within token limit
-    if (hasKey && tokenCount <= model.tokenLimit) {
+    const modelTokenCount = countFor(model.type, model.name);
+    if (modelTokenCount <= model.tokenLimit) {
       return {
         modelName: model.name,
         modelType: model.type,
-        tokenCount,
+        tokenCount: modelTokenCount,
         withinLimit: true,
         tokenLimit: model.tokenLimit,
       };
@@ -127,6 +124,29 @@ export function selectModelBasedOnTokens(
   };
 }
 
+/*----------------------------------------------------------------------------
+  Cost helper
+----------------------------------------------------------------------------*/
+export function calculateCost(
+  model: Pick<ModelConfig, "costPerInputToken" | "costPerOutputToken">,
+  usage: Pick<ModelUsage, "prompt" | "completion">,
+): number {
+  return (
+    usage.prompt * model.costPerInputToken +
+    usage.completion * model.costPerOutputToken
+  );
+}
+
+/**
+ * Attach the dollar cost of a request using the model's models.yaml pricing
+ */
+function priceResult(modelName: string, result: ModelResult): ModelResult {
+  const model = getModelByName(modelName);
+  return model
+    ? { ...result, costUsd: calculateCost(model, result.usage) }
+    : result;
+}
+
 /*----------------------------------------------------------------------------
   Model dispatcher
 ----------------------------------------------------------------------------*/
@@ -136,10 +156,16 @@ export async function sendToModel(
     modelName,
     modelType,
     tokenCount,
-  }: Pick<ModelSelection, "modelName" | "modelType" | "tokenCount">,
+    toolType,
+    timeoutMs = getTimeoutMs(),
+  }: Pick<ModelSelection, "modelName" | "modelType" | "tokenCount"> & {
+    toolType?: ToolName; // Applies the tool's params from models.yaml
+    timeoutMs?: number; // Defaults to defaults.timeoutMs; 0 means none
+  },
   sendNotification: (n: any) => Promise<void>,
   abortSignal?: AbortSignal,
-): Promise<string> {
+  onProgress?: ProviderProgressFn,
+): Promise<ModelResult> {
   // Helper function to adapt our notification format to what openai.ts expects
   const notifyAdapter = async (message: {
     level: "info" | "warning" | "error" | "debug";
@@ -169,55 +195,154 @@ export async function sendToModel(
     }
   };
 
-  try {
-    if (modelType === "openai") {
-      await sendNotification({
-        method: "notifications/message",
-        params: {
-          level: "info",
-          data: `Sending request to OpenAI ${modelName} with ${tokenCount.toLocaleString()} tokens…`,
-        },
-      });
-      // Pass the notification adapter to handle rate limit retries
-      return await sendOpenAiPrompt(
-        combined,
-        { model: modelName },
-        notifyAdapter,
-        abortSignal,
-      );
-    }
+  // One signal for the provider: aborted by the caller's cancellation or by the timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  if (abortSignal?.aborted) {
+    throw new Error(`Request to ${modelName} was cancelled`);
+  }
+  abortSignal?.addEventListener("abort", onAbort, { once: true });
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
 
-    if (modelType === "anthropic") {
-      await sendNotification({
-        method: "notifications/message",
-        params: {
-          level: "info",
-          data: `Sending request to Anthropic ${modelName} with ${tokenCount.toLocaleString()} tokens…`,
-        },
-      });
-      return await sendAnthropicPrompt(
-        combined,
-        { model: modelName },
-        abortSignal,
-        notifyAdapter,
-      );
+  try {
+    const provider = getProvider(modelType);
+    if (!provider) {
+      throw new Error(`Unsupported model type '${modelType}' for model ${modelName}`);
     }
 
     await sendNotification({
       method: "notifications/message",
       params: {
         level: "info",
-        data: `Sending request to Gemini with ${tokenCount.toLocaleString()} tokens…`,
+        data: `Sending request to ${provider.displayName} ${modelName} with ${tokenCount.toLocaleString()} tokens…`,
       },
     });
-    return await sendGeminiPrompt(
+    // Drop parameters the provider cannot accept
+    const params = getModelParams(modelName, toolType);
+    const options: ProviderSendOptions = {
+      model: modelName,
+      temperature: provider.capabilities.temperature
+        ? params.temperature
+        : undefined,
+      topP: provider.capabilities.topP ? params.topP : undefined,
+      topK: provider.capabilities.topK ? params.topK : undefined,
+      maxOutputTokens: params.maxOutputTokens,
+      systemInstruction: provider.capabilities.systemInstruction
+        ? params.systemInstruction
+        : undefined,
+      thinkingBudget: provider.capabilities.thinkingBudget
+        ? params.thinkingBudget
+        : undefined,
+      safetySettings: provider.capabilities.safetySettings
+        ? params.safetySettings
+        : undefined,
+    };
+
+    // Pass the notification adapter to handle rate limit retries
+    const result = await provider.send(
       combined,
-      { model: modelName },
-      abortSignal,
+      options,
+      controller.signal,
       notifyAdapter,
+      provider.capabilities.streaming ? onProgress : undefined,
     );
+    return priceResult(modelName, result);
   } catch (error) {
-    // Re-throw the error - no automatic fallbacks
+    // Replace the provider's abort error with the reason; a timeout stays retryable, a cancellation does not
+    if (abortSignal?.aborted) {
+      throw new Error(`Request to ${modelName} was cancelled`);
+    }
+    if (timedOut) {
+      throw new Error(`Request to ${modelName} timed out after ${timeoutMs}ms`);
+    }
+    // Re-throw the error - sendWithFallback decides whether to try another model
     throw error;
+  } finally {
+    clearTimeout(timer);
+    abortSignal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Find the next preferred model for a tool that is configured and fits the content
+ */
+function findFallbackModel(
+  combined: string,
+  toolType: ToolName,
+  tried: Set<string>,
+): Pick<ModelSelection, "modelName" | "modelType" | "tokenCount"> | undefined {
+  for (const modelId of getToolConfig(toolType).preferredModels) {
+    const model = getModelById(modelId);
+    if (!model || tried.has(model.name)) continue;
+    if (!isProviderConfigured(model.type, model)) continue;
+
+    const provider = getProvider(model.type)!;
+    const tokenCount = provider.countTokens(combined, model.name);
+    if (tokenCount <= model.tokenLimit) {
+      return { modelName: model.name, modelType: model.type, tokenCount };
+    }
+  }
+  return undefined;
+}
+
+/*----------------------------------------------------------------------------
+  Fallback dispatcher
+----------------------------------------------------------------------------*/
+export async function sendWithFallback(
+  combined: string,
+  selection: Pick<ModelSelection, "modelName" | "modelType" | "tokenCount">,
+  toolType: ToolName,
+  sendNotification: (n: any) => Promise<void>,
+  abortSignal?: AbortSignal,
+  progress?: ProgressReporter,
+): Promise<ModelResult & { modelName: string; fallbacks: ModelFallback[] }> {
+  const fallbacks: ModelFallback[] = [];
+  const tried = new Set<string>();
+  let current = selection;
+
+  while (true) {
+    tried.add(current.modelName);
+    try {
+      const result = await sendToModel(
+        combined,
+        { ...current, toolType },
+        sendNotification,
+        abortSignal,
+        progress?.stream(current.modelName),
+      );
+      progress?.flush();
+      return { ...result, modelName: current.modelName, fallbacks };
+    } catch (error) {
+      // Walk down tools.*.preferredModels for retryable failures only
+      const next =
+        getDefaults().enableFallback && isRetryableError(error)
+          ? findFallbackModel(combined, toolType, tried)
+          : undefined;
+      if (!next) {
+        throw error;
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+      fallbacks.push({
+        fromModel: current.modelName,
+        toModel: next.modelName,
+        reason,
+      });
+      await sendNotification({
+        method: "notifications/message",
+        params: {
+          level: "warning",
+          data: `${current.modelName} failed (${reason}). Falling back to ${next.modelName}…`,
+        },
+      });
+      current = next;
+    }
   }
 }
@@ -1,14 +1,29 @@
 import OpenAI from "openai";
 import { getProviderDefaultModel, getModelById } from "./modelConfig";
+import { ModelResult } from "./modelDefinitions";
+import { estimateUsage } from "./tokenCounter";
+import { withRetry } from "./utils/retry";
+import { ProviderProgressFn } from "./providers/providerTypes";
 
 /**
  * Creates a fresh OpenAI client instance for each request
  * This prevents any possibility of key corruption or caching issues
  *
+ * @param baseUrl - Optional OpenAI-compatible server to use instead of OpenAI
+ * @param apiKeyOverride - API key for that server; keyless servers may omit it
  * @returns Initialized OpenAI client
- * @throws Error if OPENAI_API_KEY is not set
+ * @throws Error if OPENAI_API_KEY is not set and no baseUrl is given
  */
-function getOpenaiClient(): OpenAI {
+function getOpenaiClient(baseUrl?: string, apiKeyOverride?: string): OpenAI {
+  if (baseUrl) {
+    // The SDK insists on a key, so keyless local servers get a placeholder
+    return new OpenAI({
+      apiKey: apiKeyOverride || "not-needed",
+      baseURL: baseUrl,
+      maxRetries: 0, // Retries follow the shared policy in utils/retry
+    });
+  }
+
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) {
     throw new Error("OPENAI_API_KEY environment variable is not set");
@@ -23,36 +38,39 @@ function getOpenaiClient(): OpenAI {
   }
 
   // Always create a fresh client to avoid any key caching/mixing issues
-  return new OpenAI({ apiKey });
+  return new OpenAI({ apiKey, maxRetries: 0 });
 }
 
 /**
- * Parse the reset time from OpenAI headers
- * @param resetHeader X-RateLimit-Reset-Tokens header value (e.g. "30s", "1m20s")
- * @returns Time in milliseconds until reset
+ * Stream a chat completion, reporting partial output as it arrives
+ * @returns The full reply, with usage from the final chunk if the server sent it
  */
-function parseResetTime(resetHeader: string): number {
-  let totalMs = 0;
-
-  // Check for minutes (e.g. "1m20s")
-  const minutesMatch = resetHeader.match(/(\d+)m/);
-  if (minutesMatch) {
-    totalMs += parseInt(minutesMatch[1], 10) * 60 * 1000;
-  }
-
-  // Check for seconds (e.g. "30s" or "1m30s")
-  const secondsMatch = resetHeader.match(/(\d+)s/);
-  if (secondsMatch) {
-    totalMs += parseInt(secondsMatch[1], 10) * 1000;
-  }
-
-  // If no time format recognized, default to 60 seconds
-  if (totalMs === 0) {
-    totalMs = 60 * 1000;
+async function streamChatCompletion(
+  client: OpenAI,
+  request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  abortSignal: AbortSignal | undefined,
+  onProgress: ProviderProgressFn,
+): Promise<{ text: string; usage?: OpenAI.CompletionUsage; finishReason?: string }> {
+  const stream = await client.chat.completions.create(
+    { ...request, stream: true, stream_options: { include_usage: true } },
+    { signal: abortSignal },
+  );
+
+  let text = "";
+  let bytes = 0;
+  let usage: OpenAI.CompletionUsage | undefined;
+  let finishReason: string | undefined;
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      bytes += Buffer.byteLength(delta);
+      onProgress({ text, bytes });
+    }
+    finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+    usage = chunk.usage ?? usage;
   }
-
-  // Add a small buffer (10%) to be safe
-  return Math.ceil(totalMs * 1.1);
+  return { text, usage, finishReason };
 }
 
 /**
@@ -60,7 +78,9 @@ function parseResetTime(resetHeader: string): number {
  * @param prompt - The text prompt to send
  * @param options - Configuration options for the request
  * @param notifyFn - Optional function to send notifications (for rate limit info)
- * @returns The text response from the OpenAI API
+ * @param abortSignal - Optional abort signal for timeout and cancellation
+ * @param onProgress - Streams the reply, reporting partial output as it arrives
+ * @returns The text response from the OpenAI API with its token usage and finish reason
  */
 export async function sendOpenAiPrompt(
   prompt: string,
@@ -68,14 +88,18 @@ export async function sendOpenAiPrompt(
     model?: string;
     temperature?: number;
     topP?: number;
-    maxOutputTokens?: number; // Maps to max_tokens in OpenAI API
+    maxOutputTokens?: number; // Maps to max_completion_tokens (max_tokens for baseUrl servers)
+    systemInstruction?: string; // Sent as a system message
+    baseUrl?: string; // OpenAI-compatible server (vLLM, llama.cpp, Ollama, LM Studio...)
+    apiKey?: string; // Key for baseUrl; OPENAI_API_KEY is used otherwise
   } = {},
   notifyFn?: (message: {
     level: "info" | "warning" | "error" | "debug";
     data: string;
   }) => Promise<void>,
   abortSignal?: AbortSignal,
-): Promise<string> {
+  onProgress?: ProviderProgressFn,
+): Promise<ModelResult> {
   // Debug logging via stderr to help trace execution flow
   if (notifyFn) {
     await notifyFn({
@@ -88,14 +112,11 @@ export async function sendOpenAiPrompt(
     });
   }
 
-  const client = getOpenaiClient();
+  const client = getOpenaiClient(options.baseUrl, options.apiKey);
   const model = options.model || getDefaultOpenAIModel();
+  const startTime = Date.now();
 
-  // Maximum retry attempts
-  const maxRetries = 3;
-  let retries = 0;
-
-  // A hard timeout is now provided by the AbortSignal from the debateOrchestrator
+  // The AbortSignal from sendToModel fires on the per-call timeout or when the client cancels
 
   // Helper function to send notifications if notifyFn is provided
   const notify = async (
@@ -115,115 +136,101 @@ export async function sendOpenAiPrompt(
     });
   }
 
-  while (true) {
-    try {
-      if (notifyFn) {
-        await notifyFn({
-          level: "debug",
-          data: `Sending request to OpenAI API (${model})...`,
+  try {
+    await notify("debug", `Sending request to OpenAI API (${model})...`);
+
+    const request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: model,
+      messages: [
+        ...(options.systemInstruction
+          ? [{ role: "system" as const, content: options.systemInstruction }]
+          : []),
+        { role: "user" as const, content: prompt },
+      ],
+      temperature: options.temperature,
+      top_p: options.topP,
+      // OpenAI reasoning models reject max_tokens, while many compatible servers only know it
+      ...(options.baseUrl
+        ? { max_tokens: options.maxOutputTokens }
+        : { max_completion_tokens: options.maxOutputTokens }),
+    };
+
+    // Rate limits, server errors and dropped connections are retried under the shared policy
+    const completion = await withRetry(
+      async () => {
+        if (onProgress) {
+          return streamChatCompletion(client, request, abortSignal, onProgress);
+        }
+        const response = await client.chat.completions.create(request, {
+          signal: abortSignal,
         });
-      }
+        return {
+          text: response.choices[0]?.message?.content ?? "",
+          usage: response.usage,
+          finishReason: response.choices[0]?.finish_reason,
+        };
+      },
+      { label: "OpenAI", notifyFn, abortSignal },
+    );
+
+    await notify("debug", `API call returned successfully`);
+
+    const textResponse = completion.text;
 
+    if (!textResponse) {
+      throw new Error("No text response received from OpenAI API");
+    }
+    return {
+      text: textResponse,
+      usage: completion.usage
+        ? {
+            prompt: completion.usage.prompt_tokens,
+            completion: completion.usage.completion_tokens,
+            total: completion.usage.total_tokens,
+          }
+        : estimateUsage(prompt, textResponse),
+      finishReason: completion.finishReason,
+      latencyMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    // Check specifically for AbortError or abort-related messages
+    if (
+      (error as Error).name === "AbortError" ||
+      (error instanceof Error &&
+        (error.message.includes("abort") || error.message.includes("cancelled")))
+    ) {
       await notify(
         "debug",
-        `About to call chat.completions.create with model: ${model}`,
+        `OpenAI request aborted: ${(error as Error).message}`,
       );
-
-      const completion = await client.chat.completions.create(
-        {
-          model: model,
-          messages: [{ role: "user", content: prompt }],
-          temperature: options.temperature,
-          top_p: options.topP,
-          max_tokens: options.maxOutputTokens,
-        },
-        { signal: abortSignal },
+      throw new Error(
+        `OpenAI request aborted: The request exceeded the configured timeout or was manually cancelled`,
       );
+    }
 
-      await notify("debug", `API call returned successfully`);
-
-      const textResponse = completion.choices[0]?.message?.content;
-
-      if (!textResponse) {
-        throw new Error("No text response received from OpenAI API");
-      }
-      return textResponse;
-    } catch (error) {
-      // Add detailed abort signal logging
-      const errorObj = error as any;
-
-      // Check specifically for AbortError or abort-related messages
+    // Handle network connectivity issues specially
+    if (error instanceof Error) {
+      const errorString = error.toString().toLowerCase();
       if (
-        (error as Error).name === "AbortError" ||
-        (error instanceof Error && error.message.includes("abort"))
+        errorString.includes("enotfound") ||
+        errorString.includes("connection error") ||
+        errorString.includes("network") ||
+        errorString.includes("timeout")
       ) {
-        await notify(
-          "debug",
-          `OpenAI request aborted: ${(error as Error).message}`,
-        );
         throw new Error(
-          `OpenAI request aborted: The request exceeded the configured timeout or was manually cancelled`,
+          options.baseUrl
+            ? `OpenAI-compatible server at ${options.baseUrl} unreachable: Network connectivity issue. Check that the server is running.`
+            : `OpenAI API unreachable: Network connectivity issue. Check your internet connection or try Gemini instead.`,
         );
       }
-
-      // Check if it's a rate limit error (429 status code)
-      if (
-        errorObj.status === 429 &&
-        errorObj.error?.type === "tokens" &&
-        retries < maxRetries
-      ) {
-        retries++;
-        await notify(
-          "warning",
-          `Rate limit exceeded (retry ${retries}/${maxRetries})`,
-        );
-
-        // Extract reset time from error response if available
-        let waitTime = 60 * 1000; // Default: 60 seconds
-
-        // Try to extract headers from error object
-        if (errorObj.headers && errorObj.headers["x-ratelimit-reset-tokens"]) {
-          waitTime = parseResetTime(
-            errorObj.headers["x-ratelimit-reset-tokens"],
-          );
-          await notify(
-            "info",
-            `Waiting ${waitTime}ms based on rate limit headers before retrying...`,
-          );
-        } else {
-          await notify(
-            "info",
-            `Rate limit headers not found, using default wait time of ${waitTime}ms...`,
-          );
-        }
-
-        // Wait for the rate limit reset before retrying
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        continue;
-      }
-
-      // Handle network connectivity issues specially
-      if (error instanceof Error) {
-        const errorString = error.toString().toLowerCase();
-        if (
-          errorString.includes("enotfound") ||
-          errorString.includes("connection error") ||
-          errorString.includes("network") ||
-          errorString.includes("timeout")
-        ) {
-          throw new Error(
-            `OpenAI API unreachable: Network connectivity issue. Check your internet connection or try Gemini instead.`,
-          );
-        }
-      }
-
-      // Log any other errors
-      await notify(
-        "error",
-        `OpenAI API error (${model}): ${error instanceof Error ? error.message : String(error)}`,
-      );
-      throw error;
     }
+
+    // Log any other errors
+    await notify(
+      "error",
+      `OpenAI API error (${model}): ${error instanceof Error ? error.message : String(error)}`,
+    );
+    throw error;
   }
 }
 
@@ -13,16 +13,46 @@ import {
   DebateMeta,
   DebateWarning,
   DebateLog,
+  CostBreakdown,
+  CostEstimate,
+  DebateRoundCandidates,
+  JudgeResult,
+  JudgeVote,
+  ReviewMerge,
+  ReviewValidation,
   ToolType,
 } from "../types/public";
-import { DebateStrategy, DebatePhase } from "../strategies/strategyTypes";
+import {
+  DebateStrategy,
+  DebatePhase,
+  DebateContext,
+} from "../strategies/strategyTypes";
 import { getStrategy } from "../strategies/registry";
 import {
   selectModelBasedOnTokens,
   getAvailableModels,
   sendToModel,
+  calculateCost,
+  ModelConfig,
+  ModelResult,
 } from "../modelManager";
-import { getToolConfig, getModelById } from "../modelConfig";
+import {
+  getToolConfig,
+  getModelById,
+  getDefaults,
+  getTimeoutMs,
+  ModelDef,
+  JudgeAggregation,
+  ToolName,
+} from "../modelConfig";
+import { countTokens } from "../tokenCounter";
+import { isProviderConfigured } from "../providers";
+import { consensusCheckPrompt } from "../prompts/debatePrompts";
+import { parseJudgeDetails } from "../utils/judgeResultParser";
+import { deriveSeed, seededShuffle } from "../utils/shuffle";
+import { ProgressReporter } from "../utils/progress";
+import { getRepairAttempts, repairReview } from "../utils/reviewValidator";
+import { mergeReviews } from "../utils/reviewMerge";
 
 // Type for notification function passed from MCP
 export type NotificationFn = (notification: {
@@ -31,23 +61,46 @@ export type NotificationFn = (notification: {
 }) => Promise<void>;
 
 /**
- * Create a mapping between model names and anonymous IDs
+ * Number of distinct candidates a lone model writes before refining them
+ */
+const SELF_DEBATE_CANDIDATES = 3;
+
+/**
+ * Rounds a debate runs when neither the request, the tool config nor the strategy sets them
+ */
+const DEFAULT_DEBATE_ROUNDS = 1;
+
+/**
+ * Confidence assumed for a judge that did not report one
+ */
+const DEFAULT_JUDGE_CONFIDENCE = 0.5;
+
+// Completion length assumed for cost estimates until a model has replied
+export const DEFAULT_COMPLETION_ESTIMATE = 2000;
+
+/**
+ * Create a mapping between model descriptors and anonymous IDs.
+ * Models are shuffled first so "A" is not always the first configured participant.
  */
-function createModelMapping(models: string[]): {
-  idToModel: Record<string, string>;
+function createModelMapping(
+  models: ModelConfig[],
+  seed: number,
+): {
+  idToModel: Record<string, ModelConfig>;
   modelToId: Record<string, string>;
 } {
-  const idToModel: Record<string, string> = {};
+  const idToModel: Record<string, ModelConfig> = {};
   const modelToId: Record<string, string> = {};
 
   // Use letters A, B, C, etc. as model IDs
   const ids = ["A", "B", "C", "D", "E", "F", "G", "H"];
 
-  models.forEach((model, index) => {
+  const shuffled = seededShuffle(models, deriveSeed(seed, "model-ids"));
+  shuffled.forEach((model, index) => {
     if (index < ids.length) {
       const id = ids[index];
       idToModel[id] = model;
-      modelToId[model] = id;
+      modelToId[model.name] = id;
     }
   });
 
@@ -55,10 +108,12 @@ function createModelMapping(models: string[]): {
 }
 
 /**
- * Create a token budget manager
+ * Create a token budget manager. Each round is assumed to cost about as much
+ * as the reported usage of the round before it.
  */
 function createTokenBudget(limit: number) {
   let usedTokens = 0;
+  let roundStartTokens = 0;
 
   return {
     getStatus: () => ({
@@ -67,8 +122,13 @@ function createTokenBudget(limit: number) {
       remaining: Math.max(0, limit - usedTokens),
     }),
 
-    beginRound: (estimatedTokens: number) => {
-      return usedTokens + estimatedTokens <= limit;
+    beginRound: () => {
+      const estimatedTokens = usedTokens - roundStartTokens;
+      if (usedTokens + estimatedTokens > limit) {
+        return false;
+      }
+      roundStartTokens = usedTokens;
+      return true;
     },
 
     recordUsage: (tokens: number) => {
@@ -89,55 +149,144 @@ function chunkArray<T>(array: T[], size: number): T[][] {
 }
 
 /**
- * Extract a confidence score from the judge's response
+ * Combine independent judge votes into a single winning candidate index.
+ * "majority" counts votes and breaks ties on total confidence; "confidence"
+ * sums confidence and breaks ties on vote count. Full ties go to the earliest vote.
  */
-function extractConfidenceScore(text: string): number {
-  const match = text.match(/Confidence Score:\s*(0\.\d+|1\.0|1)/i);
-  if (match && match[1]) {
-    return parseFloat(match[1]);
+export function aggregateJudgeVotes(
+  votes: JudgeVote[],
+  method: JudgeAggregation,
+): number {
+  const tallies = new Map<number, { votes: number; confidence: number }>();
+  for (const vote of votes) {
+    const tally = tallies.get(vote.winnerIdx) ?? { votes: 0, confidence: 0 };
+    tally.votes += 1;
+    tally.confidence += vote.confidence ?? DEFAULT_JUDGE_CONFIDENCE;
+    tallies.set(vote.winnerIdx, tally);
+  }
+
+  let bestIdx = votes[0].winnerIdx;
+  let bestTally = tallies.get(bestIdx)!;
+  for (const [idx, tally] of tallies) {
+    const [primary, secondary] =
+      method === "confidence"
+        ? [tally.confidence - bestTally.confidence, tally.votes - bestTally.votes]
+        : [tally.votes - bestTally.votes, tally.confidence - bestTally.confidence];
+    if (primary > 0 || (primary === 0 && secondary > 0)) {
+      bestIdx = idx;
+      bestTally = tally;
+    }
   }
-  return 0.5; // Default mid-level confidence
+
+  return bestIdx;
 }
 
 /**
- * Model response types
+ * Build the overall judge result from the votes that chose the winner.
+ * Confidence and criteria scores are averaged; the rationale comes from
+ * the most confident supporting judge.
  */
-interface ModelResponse {
-  text: string;
-  tokenUsage: {
-    prompt: number;
-    completion: number;
-    total: number;
+function summarizeJudgeVotes(votes: JudgeVote[], winnerIdx: number): JudgeResult {
+  const supporting = votes
+    .filter((v) => v.winnerIdx === winnerIdx)
+    .sort(
+      (a, b) =>
+        (b.confidence ?? DEFAULT_JUDGE_CONFIDENCE) -
+        (a.confidence ?? DEFAULT_JUDGE_CONFIDENCE),
+    );
+
+  const average = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((sum, v) => sum + v, 0) / values.length
+      : undefined;
+
+  const criteriaScores: Record<string, number> = {};
+  const criteria = new Set(
+    supporting.flatMap((v) => Object.keys(v.criteriaScores)),
+  );
+  criteria.forEach((criterion) => {
+    const score = average(
+      supporting
+        .map((v) => v.criteriaScores[criterion])
+        .filter((v): v is number => v !== undefined),
+    );
+    if (score !== undefined) {
+      criteriaScores[criterion] = score;
+    }
+  });
+
+  return {
+    winnerIdx,
+    confidence: average(
+      supporting
+        .map((v) => v.confidence)
+        .filter((v): v is number => v !== undefined),
+    ),
+    criteriaScores,
+    rationale: supporting[0]?.rationale ?? "",
   };
 }
 
 /**
- * Convert string response from sendToModel to ModelResponse
+ * Get the judge panel from configuration; a lone judgeModel is a panel of one.
+ * Judges whose provider is not configured are dropped, falling back to the
+ * first debate model.
  */
-function parseModelResponse(
-  response: string,
-  promptLength: number,
-): ModelResponse {
-  // Estimate token counts based on text length
-  const promptTokens = Math.ceil(promptLength / 4);
-  const completionTokens = Math.ceil(response.length / 4);
+function resolveJudgePanel(
+  toolType: ToolName,
+  debateModels: ModelConfig[],
+): ModelConfig[] {
+  const toolConfig = getToolConfig(toolType);
+  const panelIds = toolConfig.judgePanel?.length
+    ? toolConfig.judgePanel
+    : [toolConfig.judgeModel];
+
+  const judgePanel: ModelConfig[] = panelIds
+    .map((id) => getModelById(id))
+    .filter((m): m is ModelDef => !!m && isProviderConfigured(m.type, m));
+  if (judgePanel.length === 0 && debateModels.length > 0) {
+    // Fallback to first debate model if no judge is available
+    judgePanel.push(debateModels[0]);
+  }
+  return judgePanel;
+}
 
-  return {
-    text: response,
-    tokenUsage: {
-      prompt: promptTokens,
-      completion: completionTokens,
-      total: promptTokens + completionTokens,
-    },
-  };
+/**
+ * Parse the JSON object returned by a consensus check
+ */
+function parseConsensusResponse(
+  text: string,
+): { score: number; reasoning: string } | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    const score = Number(parsed.consensusScore);
+    if (!Number.isFinite(score)) {
+      return null;
+    }
+    return {
+      score: Math.min(1, Math.max(0, score)),
+      reasoning: typeof parsed.reasoning === "string" ? parsed.reasoning : "",
+    };
+  } catch (error) {
+    return null;
+  }
 }
 
 /**
  * Main orchestration function for running debates
+ * @param abortSignal - Cancels in-flight model calls and stops the debate, e.g. when the MCP client cancels
+ * @param progress - Streams every model call's output as MCP progress notifications
  */
 export async function runDebate(
   options: DebateOptions,
   sendNotification: NotificationFn,
+  abortSignal?: AbortSignal,
+  progress?: ProgressReporter,
 ): Promise<DebateResult> {
   // 1. Merge & normalize config
   const strategy = await getStrategy(options.toolType);
@@ -145,17 +294,38 @@ export async function runDebate(
     throw new Error(`No strategy available for tool type ${options.toolType}`);
   }
 
-  // Combine configs with defaults
+  // Combine configs with defaults: the request, then the tool's models.yaml entry, then the strategy
+  const toolConfig = getToolConfig(options.toolType);
   const config: Required<DebateConfig> = {
     enabled: options.debate ?? options.debateConfig?.enabled ?? false,
     rounds:
-      options.debateConfig?.rounds ?? strategy.configDefaults?.rounds ?? 3,
+      options.debateConfig?.rounds ??
+      toolConfig.rounds ??
+      strategy.configDefaults?.rounds ??
+      DEFAULT_DEBATE_ROUNDS,
     strategy: options.debateConfig?.strategy ?? options.toolType,
     maxTotalTokens: options.debateConfig?.maxTotalTokens ?? 0,
+    maxCostUsd:
+      options.debateConfig?.maxCostUsd ?? getDefaults().maxCostUsd ?? 0,
+    consensusThreshold:
+      options.debateConfig?.consensusThreshold ??
+      toolConfig.consensusThreshold ??
+      strategy.configDefaults?.consensusThreshold ??
+      0.9,
     logLevel:
       options.debateConfig?.logLevel ??
       strategy.configDefaults?.logLevel ??
       "warn",
+    seed:
+      options.debateConfig?.seed ?? Math.floor(Math.random() * 0x100000000),
+    swapJudge:
+      options.debateConfig?.swapJudge ??
+      strategy.configDefaults?.swapJudge ??
+      false,
+    mergeEdits:
+      options.debateConfig?.mergeEdits ??
+      strategy.configDefaults?.mergeEdits ??
+      false,
   };
 
   // Short-circuit if debate is disabled
@@ -176,9 +346,17 @@ export async function runDebate(
   const warnings: DebateWarning[] = [];
   const transcript: string[] = [];
   const fallbacks: { phase: string; reason: string }[] = [];
+  const candidateHistory: DebateRoundCandidates[] = [];
+  const presentationOrders: DebateLog["presentationOrders"] = [];
 
   let totalPromptTokens = 0;
   let totalCompletionTokens = 0;
+  let modelCalls = 0;
+  const cost: Required<CostBreakdown> = {
+    totalUsd: 0,
+    perModel: {},
+    perPhase: {},
+  };
 
   // Helper to track phase timings
   const timePhase = async <T>(
@@ -189,7 +367,9 @@ export async function runDebate(
     try {
       return await func();
     } finally {
-      phaseTimings[phaseName] = performance.now() - phaseStart;
+      // Accumulate so phases that run every round report their total time
+      phaseTimings[phaseName] =
+        (phaseTimings[phaseName] ?? 0) + performance.now() - phaseStart;
     }
   };
 
@@ -206,6 +386,68 @@ export async function runDebate(
     });
   };
 
+  // Helper to check a phase prompt against a model's context window
+  const fitsTokenLimit = (
+    modelId: string,
+    tokenCount: number,
+    tokenLimit: number,
+    phase: DebateWarning["phase"],
+  ): boolean => {
+    if (tokenCount <= tokenLimit) {
+      return true;
+    }
+    addWarning(
+      "TOKEN_BUDGET",
+      `${phase} prompt for model ${modelId} (${tokenCount.toLocaleString()} tokens) exceeds its token limit (${tokenLimit.toLocaleString()} tokens)`,
+      phase,
+    );
+    return false;
+  };
+
+  // Helper to check the dollar cap before a phase sends a prompt to each of the given models
+  const fitsCostCap = (
+    phase: DebateWarning["phase"],
+    prompt: string,
+    models: ModelConfig[],
+  ): boolean => {
+    if (config.maxCostUsd <= 0) {
+      return true;
+    }
+
+    // Assume replies will be about as long as the ones seen so far
+    const promptTokens = countTokens(prompt);
+    const completionTokens =
+      modelCalls > 0
+        ? totalCompletionTokens / modelCalls
+        : DEFAULT_COMPLETION_ESTIMATE;
+    const estimate = models.reduce(
+      (sum, model) =>
+        sum +
+        calculateCost(model, {
+          prompt: promptTokens,
+          completion: completionTokens,
+        }),
+      0,
+    );
+    if (cost.totalUsd + estimate <= config.maxCostUsd) {
+      return true;
+    }
+    addWarning(
+      "COST_CAP",
+      `Stopping before ${phase}: an estimated $${estimate.toFixed(4)} on top of $${cost.totalUsd.toFixed(4)} spent would exceed the $${config.maxCostUsd} cap`,
+      phase,
+    );
+    return false;
+  };
+
+  // Helper to stop the debate once the request is cancelled; the phases' catch
+  // blocks call it first so a cancelled call is not reported as a model failure
+  const throwIfCancelled = () => {
+    if (abortSignal?.aborted) {
+      throw new Error(`Debate for ${options.toolType} was cancelled`);
+    }
+  };
+
   // Helper to record fallbacks
   const addFallback = (phase: string, reason: string) => {
     fallbacks.push({ phase, reason });
@@ -217,6 +459,114 @@ export async function runDebate(
     }
   };
 
+  // Helper to send a phase prompt to a model and record its token usage
+  const invokeModel = async (
+    phase: DebatePhase | "consensus" | "validate" | "merge",
+    prompt: string,
+    model: ModelConfig,
+    tokenCount: number,
+    mockText?: string,
+  ): Promise<ModelResult> => {
+    let response: ModelResult;
+    throwIfCancelled();
+    const onProgress = progress?.stream(`${phase} ${model.name}`);
+
+    // Check if we're in test mode with API calls skipped
+    if (process.env.SKIP_API_CALLS === "true") {
+      const mockResponse =
+        mockText ??
+        `Mock ${model.name} response for phase: ${phase}\nModel: ${model.name}\nPrompt length: ${prompt.length}\nThis is test output only.`;
+
+      // Add delay to simulate API call
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      onProgress?.({
+        text: mockResponse,
+        bytes: Buffer.byteLength(mockResponse),
+      });
+      const completionTokens = countTokens(mockResponse);
+      const usage = {
+        prompt: tokenCount,
+        completion: completionTokens,
+        total: tokenCount + completionTokens,
+        estimated: true,
+      };
+      response = {
+        text: mockResponse,
+        usage,
+        finishReason: "stop",
+        latencyMs: 500,
+        costUsd: calculateCost(model, usage),
+      };
+    } else {
+      // Route by the model's configured provider type, never by its name
+      response = await sendToModel(
+        prompt,
+        {
+          modelName: model.name,
+          modelType: model.type,
+          tokenCount,
+          toolType: options.toolType,
+          timeoutMs: getTimeoutMs(phase),
+        },
+        sendNotification,
+        abortSignal,
+        onProgress,
+      );
+    }
+    progress?.flush();
+
+    // Record the usage reported by the provider
+    totalPromptTokens += response.usage.prompt;
+    totalCompletionTokens += response.usage.completion;
+    if (tokenBudget) {
+      tokenBudget.recordUsage(response.usage.total);
+    }
+    modelCalls++;
+
+    // Record the dollar cost per model and per phase
+    const callCost = response.costUsd ?? calculateCost(model, response.usage);
+    cost.totalUsd += callCost;
+    cost.perModel[model.name] = (cost.perModel[model.name] ?? 0) + callCost;
+    cost.perPhase[phase] = (cost.perPhase[phase] ?? 0) + callCost;
+
+    return response;
+  };
+
+  // Helper to snapshot the current candidates for the debate log
+  const recordCandidates = (round: number) => {
+    candidateHistory.push({
+      round,
+      candidates: candidateModelMapping.map((m) => ({
+        modelId: m.modelId,
+        modelName: m.modelName,
+        text: debateContext.candidates[m.candidateIndex],
+      })),
+    });
+  };
+
+  // Helper to pick a seeded presentation order of the candidates for one reader
+  const presentationOrder = (
+    phase: string,
+    round: number,
+    viewer: string,
+  ): number[] => {
+    const order = seededShuffle(
+      debateContext.candidates.map((_, idx) => idx),
+      deriveSeed(config.seed, `${phase}:${round}:${viewer}`),
+    );
+    presentationOrders.push({
+      phase,
+      round,
+      viewer,
+      modelIds: order.map(
+        (idx) =>
+          candidateModelMapping.find((m) => m.candidateIndex === idx)
+            ?.modelId ?? String(idx),
+      ),
+    });
+    return order;
+  };
+
   // Helper to record transcript entries (only in debug mode)
   const addTranscript = (entry: string) => {
     if (config.logLevel === "debug") {
@@ -224,17 +574,51 @@ export async function runDebate(
     }
   };
 
+  // Helper to send repairReview's requests for a review to the model that wrote it
+  const requestRepair =
+    (model: ModelConfig) =>
+    async (prompt: string): Promise<string | undefined> => {
+      const modelId = modelToId[model.name] ?? model.name;
+      throwIfCancelled();
+      const tokenCount = countTokens(prompt);
+      if (
+        !fitsTokenLimit(modelId, tokenCount, model.tokenLimit, "validate") ||
+        !fitsCostCap("validate", prompt, [model])
+      ) {
+        return undefined;
+      }
+      try {
+        addTranscript(`[VALIDATE ${modelId}]\nPrompt:\n${prompt}\n`);
+        const response = await invokeModel(
+          "validate",
+          prompt,
+          model,
+          tokenCount,
+        );
+        addTranscript(`[VALIDATE ${modelId} RESPONSE]\n${response.text}\n`);
+        return response.text;
+      } catch (error) {
+        throwIfCancelled();
+        addWarning(
+          "VALIDATION_FAIL",
+          `Repair request to ${model.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+          "validate",
+        );
+        return undefined;
+      }
+    };
+
   // Determine available models based on tool type
   const availableModels = getAvailableModels(options.toolType).filter((m) => m.available);
   if (availableModels.length === 0) {
     throw new Error(
-      "No models available. Please set either OPENAI_API_KEY or GEMINI_API_KEY environment variables.",
+      "No debate participants available. Please set the API key for at least one model listed in debateParticipants in models.yaml.",
     );
   }
 
   // Select models for the debate (for now, just use all available models)
-  const debateModels = availableModels.map((m) => m.name);
-  const modelMapping = createModelMapping(debateModels);
+  const debateModels = availableModels;
+  const modelMapping = createModelMapping(debateModels, config.seed);
   const { idToModel, modelToId } = modelMapping;
 
   // Set up token budget if specified
@@ -242,10 +626,11 @@ export async function runDebate(
     config.maxTotalTokens > 0 ? createTokenBudget(config.maxTotalTokens) : null;
 
   // Set up the debate context
-  const debateContext = {
+  const debateContext: DebateContext = {
     userPrompt: options.userPrompt,
-    candidates: [] as string[],
-    critiques: [] as string[],
+    codeContext: options.codeContext,
+    candidates: [],
+    critiques: [],
     round: 1,
   };
 
@@ -262,64 +647,162 @@ export async function runDebate(
   });
 
   let finalOutput = "";
-  let judgeResult: any = null;
-
-  // 3. Single-Model Shortcut
+  let finalModel: ModelConfig | undefined; // Wrote finalOutput, and repairs it
+  let judgeResult: JudgeResult | undefined;
+  let consensus: DebateMeta["consensus"];
+  let judgeVotes: JudgeVote[] | undefined;
+  let judgeAggregation: JudgeAggregation | undefined;
+  let mergeReport: ReviewMerge | undefined;
+  const mergeRepairs: ReviewValidation[] = []; // Each review's repairs before merging
+  let completedRounds = 0; // debateContext.round may name a round that was cut short
+
+  // 3. Single-Model Self-Debate (Chain of Recursive Thoughts)
   if (debateModels.length === 1) {
     await sendNotification({
       level: "info",
-      data: "Only one model available. Using simplified single-model flow.",
+      data: "Only one model available. Using self-debate with a single model.",
     });
 
-    // Just generate a single candidate and validate it
     const modelId = Object.keys(idToModel)[0];
-    const modelName = idToModel[modelId];
-    const generatePrompt = strategy.getPrompt("generate", debateContext);
+    const model = idToModel[modelId];
+    const modelName = model.name;
+
+    let costCapReached = false;
+
+    // Helper to run one self-debate step and return the new candidate
+    const selfDebateStep = async (
+      phase: "selfGenerate" | "selfRefine",
+      label: string,
+    ): Promise<string | null> => {
+      throwIfCancelled();
+      const prompt = strategy.getPrompt(phase, {
+        ...debateContext,
+        modelId,
+      });
+      const tokenCount = countTokens(prompt);
 
-    // Record the prompt in the transcript
-    addTranscript(`[SINGLE-MODEL GENERATE]\nPrompt:\n${generatePrompt}\n`);
+      // Record the prompt in the transcript
+      addTranscript(`[${label}]\nPrompt:\n${prompt}\n`);
 
-    try {
-      // Generate the candidate
-      const response = await timePhase<ModelResponse>("generate", async () => {
-        const rawResponse = await sendToModel(
-          generatePrompt,
-          {
-            modelName,
-            modelType: modelName.includes("gemini") ? "gemini" : "openai",
-            tokenCount: generatePrompt.length / 4,
-          },
-          sendNotification,
+      if (!fitsCostCap(phase, prompt, [model])) {
+        costCapReached = true;
+        return null;
+      }
+
+      if (!fitsTokenLimit(modelId, tokenCount, model.tokenLimit, phase)) {
+        return null;
+      }
+
+      try {
+        const response = await timePhase(phase, () =>
+          invokeModel(phase, prompt, model, tokenCount),
         );
-        return parseModelResponse(rawResponse, generatePrompt.length);
-      });
 
-      // Record token usage
-      totalPromptTokens += response.tokenUsage.prompt;
-      totalCompletionTokens += response.tokenUsage.completion;
-      if (tokenBudget) {
-        tokenBudget.recordUsage(response.tokenUsage.total);
+        // Record the response in the transcript
+        addTranscript(`[${label} RESPONSE]\n${response.text}\n`);
+
+        return response.text;
+      } catch (error) {
+        throwIfCancelled();
+        addWarning(
+          "GEN_FAIL",
+          `Self-debate step failed for model ${modelId}: ${error instanceof Error ? error.message : String(error)}`,
+          phase,
+        );
+        return null;
       }
+    };
 
-      // Record the response in the transcript
-      addTranscript(`[SINGLE-MODEL RESPONSE]\n${response.text}\n`);
+    // a. Initial burst - distinct candidates, each aware of the previous ones
+    await sendNotification({
+      level: "info",
+      data: `Self-debate round 1: Generating ${SELF_DEBATE_CANDIDATES} distinct candidates...`,
+    });
 
-      // Use the response as final output
-      finalOutput = response.text;
-    } catch (error) {
-      // Handle generation failure
-      addWarning(
-        "GEN_FAIL",
-        `Generation failed: ${error instanceof Error ? error.message : String(error)}`,
-        "generate",
+    for (let i = 1; i <= SELF_DEBATE_CANDIDATES; i++) {
+      const candidate = await selfDebateStep(
+        "selfGenerate",
+        `SELF-GENERATE ${i}`,
       );
+      if (candidate !== null) {
+        debateContext.candidates.push(candidate);
+      }
+      if (costCapReached) {
+        break;
+      }
+    }
 
+    if (debateContext.candidates.length === 0) {
       // No candidates to choose from, so return error message
-      finalOutput = `Error generating output: ${error instanceof Error ? error.message : String(error)}`;
+      finalOutput = "Error generating output: all self-debate generations failed";
+    } else {
+      completedRounds = 1;
+      candidateHistory.push({
+        round: 1,
+        candidates: debateContext.candidates.map((text) => ({
+          modelId,
+          modelName,
+          text,
+        })),
+      });
+
+      // b. Refinement - every later round (and at least one step) improves on all previous candidates
+      const lastRound = Math.max(2, config.rounds);
+      for (let round = 2; round <= lastRound; round++) {
+        if (tokenBudget && !tokenBudget.beginRound()) {
+          addWarning(
+            "TOKEN_BUDGET",
+            "Token budget exceeded. Ending self-debate early.",
+            "selfRefine",
+          );
+          break;
+        }
+
+        await sendNotification({
+          level: "info",
+          data: `Self-debate round ${round}: Refining previous candidates...`,
+        });
+
+        debateContext.round = round;
+        const refined = await selfDebateStep(
+          "selfRefine",
+          `SELF-REFINE ROUND ${round}`,
+        );
+        if (refined === null) {
+          break;
+        }
+
+        debateContext.candidates.push(refined);
+        candidateHistory.push({
+          round,
+          candidates: [{ modelId, modelName, text: refined }],
+        });
+        completedRounds = round;
+      }
+
+      // The last candidate generated is the final output
+      finalOutput = debateContext.candidates[debateContext.candidates.length - 1];
+      finalModel = model;
     }
   } else {
+    const judgePanel = resolveJudgePanel(options.toolType, debateModels);
+    judgeAggregation =
+      getToolConfig(options.toolType).judgeAggregation ?? "majority";
+
+    // The first available judge also runs the consensus checks
+    const judge = judgePanel[0];
+
+    // Helper to find the model that wrote a candidate
+    const candidateModel = (candidateIdx: number): ModelConfig | undefined => {
+      const mapping = candidateModelMapping.find(
+        (m) => m.candidateIndex === candidateIdx,
+      );
+      return mapping ? idToModel[mapping.modelId] : undefined;
+    };
+
     // 4. Multi-Model Debate Loop
     for (let round = 1; round <= config.rounds; round++) {
+      throwIfCancelled();
       await sendNotification({
         level: "info",
         data: `Starting debate round ${round}/${config.rounds}`,
@@ -329,8 +812,7 @@ export async function runDebate(
       debateContext.round = round;
 
       // Check token budget before starting the round
-      if (tokenBudget && !tokenBudget.beginRound(50000)) {
-        // Rough estimate
+      if (tokenBudget && !tokenBudget.beginRound()) {
         addWarning(
           "TOKEN_BUDGET",
           "Token budget exceeded. Ending debate early.",
@@ -341,6 +823,18 @@ export async function runDebate(
 
       // a. Generation phase
       if (round === 1) {
+        if (
+          !fitsCostCap(
+            "generate",
+            strategy.getPrompt("generate", debateContext),
+            debateModels,
+          )
+        ) {
+          throw new Error(
+            "Generation phase would exceed maxCostUsd. Cannot start debate.",
+          );
+        }
+
         await sendNotification({
           level: "info",
           data: "Generation phase: Creating initial candidates...",
@@ -348,80 +842,46 @@ export async function runDebate(
 
         const modelIds = Object.keys(idToModel);
         const generationTasks = modelIds.map((modelId) => {
-          const modelName = idToModel[modelId];
-          const modelType = modelName.includes("gemini") ? "gemini" : "openai";
+          const model = idToModel[modelId];
 
           return async () => {
             const generatePrompt = strategy.getPrompt("generate", {
               ...debateContext,
-              round: parseInt(modelId, 36) || round, // Use the model ID as a numeric identifier
+              round,
+              modelId,
             });
 
+            const tokenCount = countTokens(generatePrompt);
+
             // Record the prompt in the transcript
             addTranscript(
               `[GENERATE MODEL ${modelId}]\nPrompt:\n${generatePrompt}\n`,
             );
 
-            try {
-              // Check if we're in test mode with API calls skipped
-              if (process.env.SKIP_API_CALLS === "true") {
-                // Create a mock response for testing
-                const mockResponse = `Mock ${modelName} response for phase: generate\nModel: ${modelName}\nPrompt length: ${generatePrompt.length}\nThis is test output only.`;
-                const response = parseModelResponse(
-                  mockResponse,
-                  generatePrompt.length,
-                );
-
-                // Record token usage (mocked)
-                totalPromptTokens += response.tokenUsage.prompt;
-                totalCompletionTokens += response.tokenUsage.completion;
-                if (tokenBudget) {
-                  tokenBudget.recordUsage(response.tokenUsage.total);
-                }
-
-                // Record the mock response in the transcript
-                addTranscript(
-                  `[GENERATE RESPONSE MODEL ${modelId} (MOCK)]\n${response.text}\n`,
-                );
-
-                // Add delay to simulate API call
-                await new Promise((resolve) => setTimeout(resolve, 500));
-
-                // Store the mock candidate
-                return response.text;
-              } else {
-                // Make actual API call
-                const rawResponse = await sendToModel(
-                  generatePrompt,
-                  {
-                    modelName,
-                    modelType,
-                    tokenCount: generatePrompt.length / 4,
-                  },
-                  sendNotification,
-                );
-
-                const response = parseModelResponse(
-                  rawResponse,
-                  generatePrompt.length,
-                );
+            // Skip models whose context window cannot hold the prompt
+            if (
+              !fitsTokenLimit(modelId, tokenCount, model.tokenLimit, "generate")
+            ) {
+              return null;
+            }
 
-                // Record token usage
-                totalPromptTokens += response.tokenUsage.prompt;
-                totalCompletionTokens += response.tokenUsage.completion;
-                if (tokenBudget) {
-                  tokenBudget.recordUsage(response.tokenUsage.total);
-                }
+            try {
+              const response = await invokeModel(
+                "generate",
+                generatePrompt,
+                model,
+                tokenCount,
+              );
 
-                // Record the response in the transcript
-                addTranscript(
-                  `[GENERATE RESPONSE MODEL ${modelId}]\n${response.text}\n`,
-                );
+              // Record the response in the transcript
+              addTranscript(
+                `[GENERATE RESPONSE MODEL ${modelId}]\n${response.text}\n`,
+              );
 
-                // Store the candidate
-                return response.text;
-              }
+              // Store the candidate
+              return response.text;
             } catch (error) {
+              throwIfCancelled();
               // If generation fails, log but continue with other models
               addWarning(
                 "GEN_FAIL",
@@ -454,11 +914,10 @@ export async function runDebate(
           if (result !== null) {
             debateContext.candidates.push(result);
             const modelId = availableModelIds[resultIndex];
-            const modelName = idToModel[modelId];
             candidateModelMapping.push({
               candidateIndex,
               modelId,
-              modelName,
+              modelName: idToModel[modelId].name,
             });
             candidateIndex++;
           }
@@ -469,11 +928,189 @@ export async function runDebate(
             "All model generations failed. Cannot continue debate.",
           );
         }
+
+        recordCandidates(round);
+      } else {
+        // a'. Revision phase - each model revises its own candidate using the critiques
+        if (
+          !fitsCostCap(
+            "revise",
+            strategy.getPrompt("revise", { ...debateContext, candidateIdx: 0 }),
+            candidateModelMapping.map((m) => idToModel[m.modelId]),
+          )
+        ) {
+          break;
+        }
+
+        await sendNotification({
+          level: "info",
+          data: "Revision phase: Revising candidates based on critiques...",
+        });
+
+        const revisionTasks = candidateModelMapping.map((mapping) => {
+          const { candidateIndex, modelId } = mapping;
+          const model = idToModel[modelId];
+          const previousCandidate = debateContext.candidates[candidateIndex];
+
+          return async () => {
+            const revisePrompt = strategy.getPrompt("revise", {
+              ...debateContext,
+              round,
+              modelId,
+              candidateIdx: candidateIndex,
+            });
+            const tokenCount = countTokens(revisePrompt);
+
+            // Record the prompt in the transcript
+            addTranscript(
+              `[REVISE MODEL ${modelId}]\nPrompt:\n${revisePrompt}\n`,
+            );
+
+            // Keep the previous candidate if the model cannot take the prompt
+            if (
+              !fitsTokenLimit(modelId, tokenCount, model.tokenLimit, "revise")
+            ) {
+              return previousCandidate;
+            }
+
+            try {
+              const response = await invokeModel(
+                "revise",
+                revisePrompt,
+                model,
+                tokenCount,
+              );
+
+              // Record the response in the transcript
+              addTranscript(
+                `[REVISE RESPONSE MODEL ${modelId}]\n${response.text}\n`,
+              );
+
+              return response.text;
+            } catch (error) {
+              throwIfCancelled();
+              // If revision fails, keep the previous candidate in the debate
+              addWarning(
+                "GEN_FAIL",
+                `Revision failed for model ${modelId}: ${error instanceof Error ? error.message : String(error)}`,
+                "revise",
+              );
+              return previousCandidate;
+            }
+          };
+        });
+
+        // Run revision tasks in parallel with a parallelism of 3
+        const batches = chunkArray(revisionTasks, 3);
+        const revisedCandidates: string[] = [];
+
+        await timePhase("revise", async () => {
+          for (const batch of batches) {
+            const batchResults = await Promise.all(batch.map((task) => task()));
+            revisedCandidates.push(...batchResults);
+          }
+        });
+
+        // Revisions line up with candidateModelMapping, so indices are unchanged
+        debateContext.candidates = revisedCandidates;
+        recordCandidates(round);
+      }
+      completedRounds = round;
+
+      // Stop paying for further rounds once the candidates have converged
+      if (round < config.rounds && debateContext.candidates.length > 1) {
+        const plans: Record<string, string> = {};
+        candidateModelMapping.forEach((m) => {
+          plans[m.modelId] = debateContext.candidates[m.candidateIndex];
+        });
+        const consensusPrompt = consensusCheckPrompt(
+          plans,
+          strategy.candidateNoun,
+          config.consensusThreshold,
+        );
+        const consensusTokenCount = countTokens(consensusPrompt);
+
+        // Record the prompt in the transcript
+        addTranscript(`[CONSENSUS]\nPrompt:\n${consensusPrompt}\n`);
+
+        if (!fitsCostCap("consensus", consensusPrompt, [judge])) {
+          break;
+        }
+
+        if (
+          fitsTokenLimit(
+            judge.name,
+            consensusTokenCount,
+            judge.tokenLimit,
+            "consensus",
+          )
+        ) {
+          try {
+            const consensusResponse = await timePhase("consensus", () =>
+              invokeModel(
+                "consensus",
+                consensusPrompt,
+                judge,
+                consensusTokenCount,
+                `{"consensusScore": 0.5, "consensusReached": false, "reasoning": "Mock consensus check"}`,
+              ),
+            );
+
+            // Record the response in the transcript
+            addTranscript(`[CONSENSUS RESPONSE]\n${consensusResponse.text}\n`);
+
+            const parsed = parseConsensusResponse(consensusResponse.text);
+            if (parsed) {
+              consensus = {
+                ...parsed,
+                reached: parsed.score >= config.consensusThreshold,
+                round,
+              };
+
+              await sendNotification({
+                level: "info",
+                data: `Consensus score after round ${round}: ${parsed.score} (threshold: ${config.consensusThreshold})`,
+              });
+
+              if (consensus.reached) {
+                await sendNotification({
+                  level: "info",
+                  data: "Consensus reached. Skipping remaining rounds.",
+                });
+                break;
+              }
+            } else {
+              addWarning(
+                "CONSENSUS_MALFORMED",
+                "Could not parse consensus score from response",
+                "consensus",
+              );
+            }
+          } catch (error) {
+            throwIfCancelled();
+            // A failed check only means we keep debating
+            addWarning(
+              "CONSENSUS_MALFORMED",
+              `Consensus check error: ${error instanceof Error ? error.message : String(error)}`,
+              "consensus",
+            );
+          }
+        }
       }
 
       // Skip critique on the final round
       if (round < config.rounds) {
         // b. Critique phase
+        if (
+          !fitsCostCap(
+            "critique",
+            strategy.getPrompt("critique", debateContext),
+            debateModels,
+          )
+        ) {
+          break;
+        }
+
         await sendNotification({
           level: "info",
           data: "Critique phase: Evaluating candidates...",
@@ -495,88 +1132,48 @@ export async function runDebate(
         }
 
         const critiqueTasks = modelIds.map((modelId) => {
-          const modelName = idToModel[modelId];
-          const modelType = modelName.includes("gemini") ? "gemini" : "openai";
+          const model = idToModel[modelId];
 
           return async () => {
-            // For critique, each model critiques all candidates
+            // For critique, each model critiques all candidates in its own shuffled order
             const critiquePrompt = strategy.getPrompt("critique", {
               ...debateContext,
-              round: parseInt(modelId, 36) || round, // Use the model ID as a numeric identifier
+              round,
+              modelId,
+              candidateOrder: presentationOrder("critique", round, modelId),
             });
 
+            const tokenCount = countTokens(critiquePrompt);
+
             // Record the prompt in the transcript
             addTranscript(
               `[CRITIQUE MODEL ${modelId}]\nPrompt:\n${critiquePrompt}\n`,
             );
 
-            try {
-              // Check if we're in test mode with API calls skipped
-              if (process.env.SKIP_API_CALLS === "true") {
-                // Create a mock response for testing
-                const mockResponse = `Mock ${modelName} response for phase: critique\nModel: ${modelName}\nPrompt length: ${critiquePrompt.length}\nThis is test output only.`;
-                const response = parseModelResponse(
-                  mockResponse,
-                  critiquePrompt.length,
-                );
-
-                // Record token usage (mocked)
-                totalPromptTokens += response.tokenUsage.prompt;
-                totalCompletionTokens += response.tokenUsage.completion;
-                if (tokenBudget) {
-                  tokenBudget.recordUsage(response.tokenUsage.total);
-                }
-
-                // Record the mock response in the transcript
-                addTranscript(
-                  `[CRITIQUE RESPONSE MODEL ${modelId} (MOCK)]\n${response.text}\n`,
-                );
+            // Skip critics whose context window cannot hold the prompt
+            if (
+              !fitsTokenLimit(modelId, tokenCount, model.tokenLimit, "critique")
+            ) {
+              return null;
+            }
 
-                // Add delay to simulate API call
-                await new Promise((resolve) => setTimeout(resolve, 500));
+            try {
+              const response = await invokeModel(
+                "critique",
+                critiquePrompt,
+                model,
+                tokenCount,
+              );
 
-                // Store the mock critique
-                return response.text;
-              } else {
-                // Make actual API call
-
-                let response;
-
-                try {
-                  const rawResponse = await sendToModel(
-                    critiquePrompt,
-                    {
-                      modelName,
-                      modelType,
-                      tokenCount: critiquePrompt.length / 4,
-                    },
-                    sendNotification,
-                  );
-
-                  response = parseModelResponse(
-                    rawResponse,
-                    critiquePrompt.length,
-                  );
-                } catch (critErr) {
-                  throw critErr;
-                }
-
-                // Record token usage
-                totalPromptTokens += response.tokenUsage.prompt;
-                totalCompletionTokens += response.tokenUsage.completion;
-                if (tokenBudget) {
-                  tokenBudget.recordUsage(response.tokenUsage.total);
-                }
-
-                // Record the response in the transcript
-                addTranscript(
-                  `[CRITIQUE RESPONSE MODEL ${modelId}]\n${response.text}\n`,
-                );
+              // Record the response in the transcript
+              addTranscript(
+                `[CRITIQUE RESPONSE MODEL ${modelId}]\n${response.text}\n`,
+              );
 
-                // Store the critique
-                return response.text;
-              }
+              // Store the critique
+              return response.text;
             } catch (error) {
+              throwIfCancelled();
               // If critique fails, log but continue with other models
               addWarning(
                 "GEN_FAIL",
@@ -606,121 +1203,331 @@ export async function runDebate(
       }
     }
 
-    // c. Judge phase
-    await sendNotification({
-      level: "info",
-      data: "Judge phase: Selecting the best candidate...",
-    });
+    // c. Merge phase - in merge mode the judge only settles conflicting edits
+    const mergeMode = config.mergeEdits && options.toolType === ToolType.Review;
+
+    // Each model first repairs its own blocks, so a block that does not match
+    // the code is fixed rather than left out of the merge
+    const proposals = candidateModelMapping.map((m) => ({
+      modelId: m.modelId,
+      modelName: m.modelName,
+      text: debateContext.candidates[m.candidateIndex],
+    }));
+    if (mergeMode) {
+      await timePhase("validate", async () => {
+        for (const proposal of proposals) {
+          const checked = await repairReview(
+            proposal.text,
+            options.codeContext ?? "",
+            requestRepair(idToModel[proposal.modelId]),
+          );
+          proposal.text = checked.review;
+          mergeRepairs.push(checked.validation);
+        }
+      });
+    }
 
-    // Get judge model from configuration
-    const toolConfig = getToolConfig(options.toolType);
-    const judgeModel = getModelById(toolConfig.judgeModel);
-    
-    // Check if we have the API key for the judge model
-    const hasJudgeKey = judgeModel && (
-      (judgeModel.type === 'anthropic' && !!process.env.ANTHROPIC_API_KEY) ||
-      (judgeModel.type === 'openai' && !!process.env.OPENAI_API_KEY) ||
-      (judgeModel.type === 'gemini' && !!process.env.GEMINI_API_KEY)
-    );
-    
-    const judgeModelName = hasJudgeKey && judgeModel
-      ? judgeModel.name 
-      : debateModels[0]; // Fallback to first debate model if judge unavailable
-    const judgeModelType = judgeModel && hasJudgeKey
-      ? judgeModel.type
-      : availableModels[0].type;
+    const merged = mergeMode
+      ? await timePhase("merge", () =>
+          mergeReviews(
+            proposals,
+            options.userPrompt,
+            options.codeContext ?? "",
+            async (prompt) => {
+              throwIfCancelled();
+              const tokenCount = countTokens(prompt);
+              if (
+                !fitsTokenLimit(
+                  judge.name,
+                  tokenCount,
+                  judge.tokenLimit,
+                  "merge",
+                ) ||
+                !fitsCostCap("merge", prompt, [judge])
+              ) {
+                return undefined;
+              }
+              try {
+                addTranscript(`[MERGE ${judge.name}]\nPrompt:\n${prompt}\n`);
+                const response = await invokeModel(
+                  "merge",
+                  prompt,
+                  judge,
+                  tokenCount,
+                );
+                addTranscript(
+                  `[MERGE ${judge.name} RESPONSE]\n${response.text}\n`,
+                );
+                return response.text;
+              } catch (error) {
+                throwIfCancelled();
+                addWarning(
+                  "JUDGE_MALFORMED",
+                  `Merge judge ${judge.name} error: ${error instanceof Error ? error.message : String(error)}`,
+                  "merge",
+                );
+                return undefined;
+              }
+            },
+            judge.name,
+          ),
+        )
+      : undefined;
 
-    // Create the judge prompt
-    const judgePrompt = strategy.getPrompt("judge", debateContext);
+    if (mergeMode && !merged) {
+      addFallback(
+        "merge",
+        "No candidate had SEARCH/REPLACE blocks that could be merged. Judging the candidates instead.",
+      );
+    }
 
-    // Record the prompt in the transcript
-    addTranscript(`[JUDGE]\nPrompt:\n${judgePrompt}\n`);
+    if (merged) {
+      finalOutput = merged.review;
+      finalModel = judge;
+      mergeReport = merged.merge;
+      await sendNotification({
+        level: "info",
+        data: `Merged ${merged.merge.blocks.length} edit(s) from ${merged.merge.reviews} reviews; the judge settled ${merged.merge.resolved} of ${merged.merge.conflicts} conflicting region(s)`,
+      });
 
-    try {
-      // Get the judge's decision
-      const judgeResponse = await timePhase<ModelResponse>(
-        "judge",
-        async () => {
-          // Check if we're in test mode with API calls skipped
-          if (process.env.SKIP_API_CALLS === "true") {
-            // Create a mock response for testing
-            const mockResponse = `Mock ${judgeModelName} response for phase: judge
-          Winner: Model A's plan
-
-          Confidence Score: 0.8
-
-          Rationale: This is a mock judge response for testing purposes. In a real debate, this would contain the judge's rationale for selecting the winning candidate.`;
-
-            // Add delay to simulate API call
-            await new Promise((resolve) => setTimeout(resolve, 500));
-
-            return parseModelResponse(mockResponse, judgePrompt.length);
-          } else {
-            // Make actual API call
-            const rawResponse = await sendToModel(
-              judgePrompt,
-              {
-                modelName: judgeModelName,
-                modelType: judgeModelType,
-                tokenCount: judgePrompt.length / 4,
-              },
-              sendNotification,
+      for (const block of merged.unplaced) {
+        addWarning(
+          "VALIDATION_FAIL",
+          `Left out block at line ${block.line} of model ${block.modelId}'s review${block.filePath ? ` (${block.filePath})` : ""}: ${block.error}`,
+          "merge",
+        );
+      }
+      if (merged.merge.resolved < merged.merge.conflicts) {
+        const reason = `The judge did not settle ${merged.merge.conflicts - merged.merge.resolved} conflicting region(s). Using the first proposal for each.`;
+        addWarning("JUDGE_MALFORMED", reason, "merge");
+        addFallback("merge", reason);
+      }
+    } else {
+      // d. Judge phase - every judge on the panel votes independently
+      await sendNotification({
+        level: "info",
+        data: `Judge phase: ${judgePanel.length} judge(s) selecting the best candidate...`,
+      });
+
+      type Verdict = JudgeVote & { text: string };
+
+      // Helper to ask one judge for a verdict with the candidates in the given order
+      const runJudge = async (
+        judgeModel: ModelConfig,
+        order: number[],
+        label: string,
+      ): Promise<Verdict | null> => {
+        // Create the judge prompt
+        const judgePrompt = strategy.getPrompt("judge", {
+          ...debateContext,
+          candidateOrder: order,
+        });
+        const judgeTokenCount = countTokens(judgePrompt);
+
+        // Record the prompt in the transcript
+        addTranscript(`[${label}]\nPrompt:\n${judgePrompt}\n`);
+
+        if (
+          !fitsTokenLimit(
+            judgeModel.name,
+            judgeTokenCount,
+            judgeModel.tokenLimit,
+            "judge",
+          )
+        ) {
+          return null;
+        }
+
+        try {
+          const judgeResponse = await invokeModel(
+            "judge",
+            judgePrompt,
+            judgeModel,
+            judgeTokenCount,
+            `Mock ${judgeModel.name} response for phase: judge
+            [[WINNER: 1]]
+
+            Confidence Score: 0.8
+
+            Scores:
+            - Clarity: 8/10
+
+            Rationale: This is a mock judge response for testing purposes. In a real debate, this would contain the judge's rationale for selecting the winning candidate.`,
+          );
+
+          // Record the response in the transcript
+          addTranscript(`[${label} RESPONSE]\n${judgeResponse.text}\n`);
+
+          // Parse the judge's decision
+          const parsed = strategy.parseJudge(
+            judgeResponse.text,
+            debateContext.candidates,
+          );
+          if (!parsed.success) {
+            // Discard the vote rather than guessing a winner
+            addWarning(
+              "JUDGE_MALFORMED",
+              `Judge ${judgeModel.name}: ${parsed.error}`,
+              "judge",
             );
-            return parseModelResponse(rawResponse, judgePrompt.length);
+            return null;
           }
-        },
-      );
 
-      // Record token usage
-      totalPromptTokens += judgeResponse.tokenUsage.prompt;
-      totalCompletionTokens += judgeResponse.tokenUsage.completion;
-      if (tokenBudget) {
-        tokenBudget.recordUsage(judgeResponse.tokenUsage.total);
-      }
+          // The judge numbers entries by position, so map its vote back through the order
+          const winnerIdx =
+            parsed.winnerIdx >= 0 ? order[parsed.winnerIdx] : parsed.winnerIdx;
+
+          return {
+            judgeModelName: judgeModel.name,
+            winnerIdx,
+            winnerModelId: candidateModelMapping.find(
+              (m) => m.candidateIndex === winnerIdx,
+            )?.modelId,
+            ...parseJudgeDetails(judgeResponse.text, strategy.judgeCriteria),
+            text: judgeResponse.text,
+          };
+        } catch (error) {
+          throwIfCancelled();
+          addWarning(
+            "JUDGE_MALFORMED",
+            `Judge ${judgeModel.name} error: ${error instanceof Error ? error.message : String(error)}`,
+            "judge",
+          );
+          return null;
+        }
+      };
 
-      // Record the response in the transcript
-      if (process.env.SKIP_API_CALLS === "true") {
-        addTranscript(`[JUDGE RESPONSE (MOCK)]\n${judgeResponse.text}\n`);
-      } else {
-        addTranscript(`[JUDGE RESPONSE]\n${judgeResponse.text}\n`);
-      }
+      const judgeTasks = judgePanel.map((judgeModel, judgeIdx) => {
+        return async (): Promise<Verdict | null> => {
+          // Each judge sees the candidates in its own shuffled order
+          const order = presentationOrder(
+            "judge",
+            debateContext.round,
+            `${judgeIdx}:${judgeModel.name}`,
+          );
+          const verdict = await runJudge(
+            judgeModel,
+            order,
+            `JUDGE ${judgeModel.name}`,
+          );
 
-      // Parse the judge's decision
-      judgeResult = strategy.parseJudge(
-        judgeResponse.text,
-        debateContext.candidates,
+          // Optionally re-judge with the order reversed and flag verdicts that flip
+          if (verdict && config.swapJudge && order.length > 1) {
+            const swapped = await runJudge(
+              judgeModel,
+              [...order].reverse(),
+              `JUDGE ${judgeModel.name} (SWAPPED)`,
+            );
+            if (swapped) {
+              verdict.flippedOnSwap = swapped.winnerIdx !== verdict.winnerIdx;
+              if (verdict.flippedOnSwap) {
+                addWarning(
+                  "POSITION_BIAS",
+                  `Judge ${judgeModel.name} chose candidate ${verdict.winnerIdx + 1} but chose candidate ${swapped.winnerIdx + 1} when the order was reversed`,
+                  "judge",
+                );
+              }
+            }
+          }
+
+          return verdict;
+        };
+      });
+
+      // Run judge tasks in parallel with a parallelism of 3
+      const judgeBatches = chunkArray(judgeTasks, 3);
+      const voteResults: (Verdict | null)[] = [];
+
+      // Swapped re-judging doubles the judge calls
+      const judgeCalls = config.swapJudge
+        ? [...judgePanel, ...judgePanel]
+        : judgePanel;
+      const judgeWithinCap = fitsCostCap(
+        "judge",
+        strategy.getPrompt("judge", debateContext),
+        judgeCalls,
       );
 
-      if (judgeResult.success) {
-        if (judgeResult.winnerIdx === -1) {
-          // Judge provided its own synthesis
-          finalOutput = judgeResponse.text;
-        } else {
-          // Judge selected a winner from the candidates
-          finalOutput = debateContext.candidates[judgeResult.winnerIdx];
-        }
-      } else {
-        // Judge failed to determine a winner
-        addWarning("JUDGE_MALFORMED", judgeResult.error, "judge");
-        addFallback("judge", judgeResult.error);
+      throwIfCancelled();
+      if (judgeWithinCap) {
+        await timePhase("judge", async () => {
+          for (const batch of judgeBatches) {
+            const batchResults = await Promise.all(batch.map((task) => task()));
+            voteResults.push(...batchResults);
+          }
+        });
+      }
 
-        // Fallback to the first candidate
+      const votes = voteResults.filter((v): v is Verdict => v !== null);
+      judgeVotes = votes.map(({ text, ...vote }) => vote);
+
+      if (!judgeWithinCap) {
+        // Judging would exceed the dollar cap, so fall back to the first candidate
+        addFallback(
+          "judge",
+          "Judge phase skipped to stay within maxCostUsd. Using the first candidate.",
+        );
+        finalOutput = debateContext.candidates[0];
+        finalModel = candidateModel(0);
+      } else if (votes.length === 0) {
+        // No judge produced a usable verdict, so fall back to the first candidate
+        const reason = "No judge returned a usable verdict. Using the first candidate.";
+        addWarning("JUDGE_MALFORMED", reason, "judge");
+        addFallback("judge", reason);
         finalOutput = debateContext.candidates[0];
+        finalModel = candidateModel(0);
+      } else {
+        const winnerIdx = aggregateJudgeVotes(votes, judgeAggregation);
+        judgeResult = summarizeJudgeVotes(votes, winnerIdx);
+
+        if (winnerIdx === -1) {
+          // Judges preferred a synthesis; use the most confident judge's version
+          const synthesis = votes
+            .filter((v) => v.winnerIdx === -1)
+            .sort(
+              (a, b) =>
+                (b.confidence ?? DEFAULT_JUDGE_CONFIDENCE) -
+                (a.confidence ?? DEFAULT_JUDGE_CONFIDENCE),
+            )[0];
+          finalOutput = synthesis.text;
+          finalModel = judgePanel.find(
+            (m) => m.name === synthesis.judgeModelName,
+          );
+        } else {
+          // Judges selected a winner from the candidates
+          finalOutput = debateContext.candidates[winnerIdx];
+          finalModel = candidateModel(winnerIdx);
+        }
       }
-    } catch (error) {
-      // If judge phase fails, fallback to the first candidate
+    }
+  }
+
+  // 5. Check review blocks against the code and have the model repair failures
+  let validation: ReviewValidation | undefined;
+  if (options.toolType === ToolType.Review && finalModel) {
+    const repairModel = finalModel;
+    const checked = await timePhase("validate", () =>
+      repairReview(
+        finalOutput,
+        options.codeContext ?? "",
+        requestRepair(repairModel),
+      ),
+    );
+    finalOutput = checked.review;
+    validation = checked.validation;
+
+    // Count the repairs made to each review before merging
+    for (const earlier of mergeRepairs) {
+      validation.repairAttempts += earlier.repairAttempts;
+      validation.repaired += earlier.repaired;
+      validation.dropped += earlier.dropped;
+    }
+    for (const failure of validation.failures) {
       addWarning(
-        "JUDGE_MALFORMED",
-        `Judge phase error: ${error instanceof Error ? error.message : String(error)}`,
-        "judge",
+        "VALIDATION_FAIL",
+        `Block at line ${failure.line}${failure.filePath ? ` (${failure.filePath})` : ""}: ${failure.error}`,
+        "validate",
       );
-      addFallback(
-        "judge",
-        `Error: ${error instanceof Error ? error.message : String(error)}`,
-      );
-
-      // Use the first candidate as fallback
-      finalOutput = debateContext.candidates[0];
     }
   }
 
@@ -731,41 +1538,43 @@ export async function runDebate(
       prompt: totalPromptTokens,
       completion: totalCompletionTokens,
     },
+    cost,
     timings: {
       totalMs: performance.now() - startTime,
       perPhase: phaseTimings,
     },
     strategy: strategy.toolType,
-    rounds: debateContext.round,
+    rounds: completedRounds,
+    consensus,
+    judgeResult,
+    judgeVotes,
+    judgeAggregation,
+    seed: config.seed,
+    validation,
+    merge: mergeReport,
   };
 
-  // Add winner information if we have a successful judge result
-  await sendNotification({
-    level: "info",
-    data: `Debug: judgeResult exists: ${!!judgeResult}, success: ${judgeResult?.success}, winnerIdx: ${judgeResult?.winnerIdx}`,
-  });
-
-  if (judgeResult && judgeResult.success && judgeResult.winnerIdx >= 0) {
-    await sendNotification({
-      level: "info",
-      data: `Looking for winner at index ${judgeResult.winnerIdx} in mapping: ${JSON.stringify(candidateModelMapping)}`,
-    });
+  // Add winner information if the judges chose one of the candidates
+  if (judgeResult && judgeResult.winnerIdx >= 0) {
+    const winnerIdx = judgeResult.winnerIdx;
     const winnerMapping = candidateModelMapping.find(
-      (m) => m.candidateIndex === judgeResult.winnerIdx,
+      (m) => m.candidateIndex === winnerIdx,
     );
     if (winnerMapping) {
       meta.winner = {
         modelId: winnerMapping.modelId,
         modelName: winnerMapping.modelName,
+        confidence: judgeResult.confidence,
+        rationale: judgeResult.rationale,
       };
       await sendNotification({
         level: "info",
-        data: `Found winner: ${winnerMapping.modelName} (${winnerMapping.modelId})`,
+        data: `Winner: ${winnerMapping.modelName} (${winnerMapping.modelId})${judgeResult.confidence !== undefined ? `, confidence ${judgeResult.confidence.toFixed(2)}` : ""}`,
       });
     } else {
       await sendNotification({
         level: "info",
-        data: `No winner mapping found for index ${judgeResult.winnerIdx}`,
+        data: `No winner mapping found for index ${winnerIdx}`,
       });
     }
   }
@@ -781,6 +1590,8 @@ export async function runDebate(
     (result as any).debateLog = {
       transcript,
       fallbacks,
+      candidateHistory,
+      presentationOrders,
     } as DebateLog;
   }
 
@@ -792,6 +1603,9 @@ export async function runDebate(
     case ToolType.Review:
       (result as any).review = finalOutput;
       break;
+    case ToolType.Plan:
+      (result as any).plan = finalOutput;
+      break;
   }
 
   // 8. Send telemetry if enabled
@@ -802,9 +1616,10 @@ export async function runDebate(
         JSON.stringify({
           event: "debate_completion",
           toolType: options.toolType,
-          rounds: debateContext.round,
+          rounds: completedRounds,
           warnings: warnings.length,
           tokens: totalPromptTokens + totalCompletionTokens,
+          costUsd: cost.totalUsd,
           durationMs: meta.timings.totalMs,
           modelsCount: debateModels.length,
         }),
@@ -816,8 +1631,147 @@ export async function runDebate(
 
   await sendNotification({
     level: "info",
-    data: `Debate completed for ${options.toolType} in ${Math.round(meta.timings.totalMs)}ms with ${warnings.length} warnings.`,
+    data: `Debate completed for ${options.toolType} in ${Math.round(meta.timings.totalMs)}ms with ${warnings.length} warnings, costing $${cost.totalUsd.toFixed(4)}.`,
   });
 
   return result;
 }
+
+/**
+ * Project the calls, tokens and dollar cost of a debate without sending anything.
+ * Every prompt is assumed to carry the full context plus the candidates it quotes,
+ * and every reply is assumed to be DEFAULT_COMPLETION_ESTIMATE tokens long.
+ * Reviews also count every repair request, priced at the dearest model that
+ * could have written the final review.
+ */
+export function estimateDebate(options: {
+  toolType: ToolType;
+  contextTokens: number;
+  rounds?: number; // Defaults to the tool's models.yaml entry
+  swapJudge?: boolean;
+  mergeEdits?: boolean;
+}): CostEstimate {
+  const rounds =
+    options.rounds ??
+    getToolConfig(options.toolType).rounds ??
+    DEFAULT_DEBATE_ROUNDS;
+  const debateModels = getAvailableModels(options.toolType).filter(
+    (m) => m.available,
+  );
+  const candidateTokens = DEFAULT_COMPLETION_ESTIMATE;
+  const estimate: Required<CostEstimate> = {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    perPhase: {},
+  };
+
+  // Helper to add calls of one phase to the estimate
+  const addCalls = (
+    phase: DebatePhase | "consensus" | "validate" | "merge",
+    models: ModelConfig[],
+    promptTokens: number,
+  ) => {
+    models.forEach((model) => {
+      const callCost = calculateCost(model, {
+        prompt: promptTokens,
+        completion: DEFAULT_COMPLETION_ESTIMATE,
+      });
+      estimate.calls++;
+      estimate.promptTokens += promptTokens;
+      estimate.completionTokens += DEFAULT_COMPLETION_ESTIMATE;
+      estimate.costUsd += callCost;
+      const phaseEstimate = estimate.perPhase[phase] ?? {
+        calls: 0,
+        costUsd: 0,
+      };
+      phaseEstimate.calls++;
+      phaseEstimate.costUsd += callCost;
+      estimate.perPhase[phase] = phaseEstimate;
+    });
+  };
+
+  // Models that may write the final review, and so receive its repair requests
+  let finalModels: ModelConfig[] = [];
+
+  if (debateModels.length === 1) {
+    // Self-debate: an initial burst, then one refinement per later round
+    for (let i = 0; i < SELF_DEBATE_CANDIDATES; i++) {
+      addCalls(
+        "selfGenerate",
+        debateModels,
+        options.contextTokens + i * candidateTokens,
+      );
+    }
+    const lastRound = Math.max(2, rounds);
+    for (let round = 2; round <= lastRound; round++) {
+      addCalls(
+        "selfRefine",
+        debateModels,
+        options.contextTokens +
+          (SELF_DEBATE_CANDIDATES + round - 2) * candidateTokens,
+      );
+    }
+    finalModels = debateModels;
+  } else if (debateModels.length > 1) {
+    const n = debateModels.length;
+    const judgePanel = resolveJudgePanel(options.toolType, debateModels);
+
+    for (let round = 1; round <= rounds; round++) {
+      if (round === 1) {
+        addCalls("generate", debateModels, options.contextTokens);
+      } else {
+        // Own candidate plus the critiques of every other model
+        addCalls(
+          "revise",
+          debateModels,
+          options.contextTokens + n * candidateTokens,
+        );
+      }
+      if (round < rounds) {
+        addCalls("consensus", [judgePanel[0]], n * candidateTokens);
+        addCalls(
+          "critique",
+          debateModels,
+          options.contextTokens + n * candidateTokens,
+        );
+      }
+    }
+
+    // Each review is repaired by its own model before merging, and the judges
+    // still vote when no candidate has edits to merge
+    if (options.mergeEdits && options.toolType === ToolType.Review) {
+      for (let i = 0; i < getRepairAttempts(); i++) {
+        addCalls(
+          "validate",
+          debateModels,
+          options.contextTokens + candidateTokens,
+        );
+      }
+      addCalls("merge", [judgePanel[0]], n * candidateTokens);
+    }
+    const judgeCalls = options.swapJudge
+      ? [...judgePanel, ...judgePanel]
+      : judgePanel;
+    addCalls("judge", judgeCalls, options.contextTokens + n * candidateTokens);
+    finalModels = [...debateModels, ...judgePanel];
+  }
+
+  if (options.toolType === ToolType.Review && finalModels.length > 0) {
+    const repairTokens = options.contextTokens + candidateTokens;
+    const repairCost = (model: ModelConfig) =>
+      calculateCost(model, {
+        prompt: repairTokens,
+        completion: DEFAULT_COMPLETION_ESTIMATE,
+      });
+    const repairModel = finalModels.reduce((a, b) =>
+      repairCost(b) > repairCost(a) ? b : a,
+    );
+    for (let i = 0; i < getRepairAttempts(); i++) {
+      addCalls("validate", [repairModel], repairTokens);
+    }
+  }
+
+  return estimate;
+}
@@ -18,6 +18,29 @@ export function addLineNumbers(content: string): string {
   ).join('\n');
 }
 
+// Remove the line numbers added by addLineNumbers; other content is returned as is
+export function removeLineNumbers(content: string): string {
+  const lines = content.split('\n');
+  const padding = String(lines.length).length;
+  const numbered = lines.every((line, i) =>
+    line.startsWith(`${String(i + 1).padStart(padding)}  `)
+  );
+
+  return numbered ? lines.map(line => line.slice(padding + 2)).join('\n') : content;
+}
+
+// Recover each file's content from packed XML, keyed by its source path
+export function unpackFiles(xml: string): Map<string, string> {
+  const files = new Map<string, string>();
+  const pattern = /<document index="\d+">\n<source>([^\n]*)<\/source>\n<document_content>\n([\s\S]*?)\n<\/document_content>\n<\/document>/g;
+
+  for (const match of xml.matchAll(pattern)) {
+    files.set(match[1], removeLineNumbers(match[2]));
+  }
+
+  return files;
+}
+
 // Read .gitignore file and return an ignore instance
 export function readGitignore(dirPath: string): ignore.Ignore {
   const ig = ignore();
@@ -190,36 +190,139 @@ IMPORTANT: Do not reveal your underlying model identity. Always refer to yoursel
 }
 
 /**
- * Consensus check prompt - to determine if plans have converged
+ * Consensus check prompt - to determine if the candidates have converged
+ * @param candidates Each candidate keyed by its model's anonymous ID
+ * @param noun Plural name of the candidates, e.g. "code reviews"
+ * @param threshold Score at which the debate counts as converged
  */
-export function consensusCheckPrompt(plans: Record<string, string>): string {
-  const planEntries = Object.entries(plans)
+export function consensusCheckPrompt(
+  candidates: Record<string, string>,
+  noun: string,
+  threshold: number,
+): string {
+  const candidateEntries = Object.entries(candidates)
     .map(
-      ([id, plan]) => `
-## PLAN ${id}
-${plan.trim()}
+      ([id, candidate]) => `
+## CANDIDATE ${id}
+${candidate.trim()}
 `,
     )
     .join("\n\n");
 
   return `
-You are evaluating multiple implementation plans to determine if they have reached consensus.
-Review the following plans and determine their similarity and consensus level:
+You are evaluating multiple ${noun} to determine if they have reached consensus.
+Review the following ${noun} and determine their similarity and consensus level:
 
-${planEntries}
+${candidateEntries}
 
 Calculate a consensus score from 0.0 to 1.0, where:
 - 0.0 means completely different approaches with no overlap
-- 0.5 means similar high-level approach but different implementation details
-- 1.0 means effectively identical plans with only minor variations
+- 0.5 means similar high-level approach but different details
+- 1.0 means effectively identical ${noun} with only minor variations
 
 Return ONLY a JSON object with the following structure:
 {
   "consensusScore": 0.0 to 1.0,
-  "consensusReached": true/false (true if score >= 0.9),
+  "consensusReached": true/false (true if score >= ${threshold}),
   "reasoning": "Brief explanation of your scoring"
 }
 
 IMPORTANT: Do not include any other text before or after the JSON.
 `;
 }
+
+/**
+ * Review repair prompt - asks a model to fix SEARCH/REPLACE blocks that do not
+ * match the files they edit
+ */
+export function reviewRepairPrompt(
+  codeContext: string,
+  failures: { block: string; error: string }[],
+): string {
+  const blockEntries = failures
+    .map(
+      ({ block, error }, idx) => `
+## BLOCK ${idx + 1}
+Problem: ${error}
+
+${block}
+`,
+    )
+    .join("\n\n");
+
+  return `
+The following SEARCH/REPLACE blocks from a code review cannot be applied to the files they edit.
+
+${blockEntries}
+
+The files as they currently are:
+
+<code_context>
+${codeContext}
+</code_context>
+
+For EACH block above, reply with the heading "### BLOCK n" using the same number, followed by either:
+- A corrected block in the same format, with the file's full path on the line above it and a SEARCH
+  section copied exactly from that file (no line numbers) that occurs only once in it, or
+- The single word DROP if the change is not needed or cannot be made.
+
+Keep each REPLACE section's intent unless the problem shows it was wrong.
+Do not include any other text.
+`;
+}
+
+/**
+ * Review merge prompt - asks the judge to settle the regions of code where
+ * candidate reviews proposed different edits
+ */
+export function reviewMergePrompt(
+  userPrompt: string,
+  conflicts: {
+    filePath: string;
+    lines?: [number, number];
+    code: string;
+    proposals: { modelId: string; blocks: string }[];
+  }[],
+): string {
+  const escapedPrompt = escapeUserInput(userPrompt);
+  const conflictEntries = conflicts
+    .map(({ filePath, lines, code, proposals }, idx) => {
+      const proposalEntries = proposals
+        .map(
+          ({ modelId, blocks }) => `
+### PROPOSAL ${modelId}
+${blocks}
+`,
+        )
+        .join("\n");
+
+      return `
+## CONFLICT ${idx + 1}
+File: ${filePath}
+${
+  lines
+    ? `Current code around lines ${lines[0]}-${lines[1]}:\n\`\`\`\n${code}\n\`\`\``
+    : "The file does not exist yet."
+}
+${proposalEntries}`;
+    })
+    .join("\n\n");
+
+  return `
+Several code reviews were written for the following request:
+
+"${escapedPrompt}"
+
+Their edits have been merged wherever they touch different code. The reviews disagree on the regions below, each shown with the edits every review proposed for it.
+
+${conflictEntries}
+
+For EACH conflict above, reply with the heading "### CONFLICT n" using the same number, followed by exactly one of:
+- [[CHOOSE: X]] to keep PROPOSAL X unchanged
+- SEARCH/REPLACE blocks of your own that combine the best of the proposals, with the file's full path on the line above each block and a SEARCH section copied exactly from the current code
+- The single word DROP if none of the proposed edits should be made
+
+Judge each conflict on correctness first, then on how well it serves the request.
+Do not include any other text.
+`;
+}
@@ -44,4 +44,49 @@ export function loadPrompt(tool: ToolType, phase: DebatePhase): string {
 export function escapeUserInput(input: string): string {
   // Replace quotes and other special characters that could break prompt formatting
   return input.replace(/"/g, '\\"').replace(/`/g, "\\`").replace(/\$/g, "\\$");
-}
\ No newline at end of file
+}
+
+/**
+ * Formats the packed code context for the ${codeContext} placeholder
+ * @param codeContext The packed files XML, if any
+ * @returns The packed files, or an empty documents element when there are none
+ */
+export function formatCodeContext(codeContext?: string): string {
+  return codeContext?.trim() ? codeContext : "<documents></documents>";
+}
+
+/**
+ * Fills the ${name} placeholders of a prompt template in a single pass
+ * @param template The prompt template
+ * @param values Text for each placeholder; placeholders without one are left as they are
+ * @returns The filled template. Filled-in text is never scanned again, so
+ *   placeholders inside packed code or model output stay verbatim
+ */
+export function fillPlaceholders(template: string, values: Record<string, string>): string {
+  return template.replace(/\$\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder,
+  );
+}
+
+/**
+ * Formats candidates as numbered prompt sections in presentation order
+ * @param label The section label, e.g. "OPINION"
+ * @param candidates The candidates in generation order
+ * @param order Candidate indices in the order to present them (defaults to generation order)
+ * @param keepCandidateNumbers Number entries by generation order instead of position
+ * @returns The formatted entries. Entry n is candidate order[n - 1] unless
+ *   keepCandidateNumbers is set, so the numbers do not give away generation order
+ */
+export function formatCandidateEntries(
+  label: string,
+  candidates: string[],
+  order: number[] = candidates.map((_, idx) => idx),
+  keepCandidateNumbers = false,
+): string {
+  return order
+    .map(
+      (idx, pos) =>
+        `## ${label} ${(keepCandidateNumbers ? idx : pos) + 1}\n${candidates[idx].trim()}`,
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,55 @@
+/**
+ * Anthropic model provider
+ */
+
+import { sendAnthropicPrompt } from "../anthropic";
+import { ModelResult } from "../modelDefinitions";
+import { countTokens } from "../tokenCounter";
+import {
+  ModelProvider,
+  ProviderNotifyFn,
+  ProviderProgressFn,
+  ProviderSendOptions,
+} from "./providerTypes";
+import { registerProvider } from "./registry";
+
+/**
+ * Provider for models with `type: anthropic` in models.yaml
+ */
+class AnthropicProvider implements ModelProvider {
+  readonly type = "anthropic";
+  readonly displayName = "Anthropic";
+  readonly capabilities = {
+    streaming: true,
+    temperature: true,
+    topP: false,
+    topK: false,
+    systemInstruction: true,
+    thinkingBudget: false,
+    safetySettings: false,
+  };
+
+  isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  countTokens(text: string): number {
+    return countTokens(text);
+  }
+
+  send(
+    prompt: string,
+    options: ProviderSendOptions,
+    abortSignal?: AbortSignal,
+    notifyFn?: ProviderNotifyFn,
+    onProgress?: ProviderProgressFn,
+  ): Promise<ModelResult> {
+    return sendAnthropicPrompt(prompt, options, abortSignal, notifyFn, onProgress);
+  }
+}
+
+// Create and export the singleton instance
+export const anthropicProvider = new AnthropicProvider();
+
+// Register this provider with the registry
+registerProvider(anthropicProvider);
@@ -0,0 +1,55 @@
+/**
+ * Gemini model provider
+ */
+
+import { sendGeminiPrompt } from "../gemini";
+import { ModelResult } from "../modelDefinitions";
+import { countTokens } from "../tokenCounter";
+import {
+  ModelProvider,
+  ProviderNotifyFn,
+  ProviderProgressFn,
+  ProviderSendOptions,
+} from "./providerTypes";
+import { registerProvider } from "./registry";
+
+/**
+ * Provider for models with `type: gemini` in models.yaml
+ */
+class GeminiProvider implements ModelProvider {
+  readonly type = "gemini";
+  readonly displayName = "Gemini";
+  readonly capabilities = {
+    streaming: true,
+    temperature: true,
+    topP: true,
+    topK: true,
+    systemInstruction: true,
+    thinkingBudget: true,
+    safetySettings: true,
+  };
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  countTokens(text: string): number {
+    return countTokens(text);
+  }
+
+  send(
+    prompt: string,
+    options: ProviderSendOptions,
+    abortSignal?: AbortSignal,
+    notifyFn?: ProviderNotifyFn,
+    onProgress?: ProviderProgressFn,
+  ): Promise<ModelResult> {
+    return sendGeminiPrompt(prompt, options, abortSignal, notifyFn, onProgress);
+  }
+}
+
+// Create and export the singleton instance
+export const geminiProvider = new GeminiProvider();
+
+// Register this provider with the registry
+registerProvider(geminiProvider);
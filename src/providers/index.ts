@@ -0,0 +1,14 @@
+/**
+ * Built-in model providers
+ *
+ * Importing this module registers every built-in provider. A new provider is
+ * one module that calls registerProvider, imported here.
+ */
+
+import "./openaiProvider";
+import "./anthropicProvider";
+import "./geminiProvider";
+import "./openaiCompatibleProvider";
+
+export { getProvider, getProviders, isProviderConfigured } from "./registry";
+export type { ModelProvider, ProviderCapabilities } from "./providerTypes";
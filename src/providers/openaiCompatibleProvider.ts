@@ -0,0 +1,103 @@
+/**
+ * OpenAI-compatible model provider
+ *
+ * Covers any server that speaks the OpenAI chat completions API, such as
+ * vLLM, llama.cpp server, Ollama or LM Studio. Each models.yaml entry sets
+ * its own `baseUrl` and, optionally, the env var holding its API key.
+ */
+
+import { sendOpenAiPrompt } from "../openai";
+import { ModelResult } from "../modelDefinitions";
+import { ModelDef, getModelByName, loadModelConfig } from "../modelConfig";
+import { countTokens } from "../tokenCounter";
+import {
+  ModelProvider,
+  ProviderNotifyFn,
+  ProviderProgressFn,
+  ProviderSendOptions,
+} from "./providerTypes";
+import { registerProvider } from "./registry";
+
+/**
+ * Provider for models with `type: openai-compatible` in models.yaml
+ */
+class OpenAiCompatibleProvider implements ModelProvider {
+  readonly type = "openai-compatible";
+  readonly displayName = "OpenAI-compatible server";
+  readonly capabilities = {
+    streaming: true,
+    temperature: true,
+    topP: true,
+    topK: false,
+    systemInstruction: true,
+    thinkingBudget: false,
+    safetySettings: false,
+  };
+
+  isConfigured(model?: ModelDef): boolean {
+    if (model) {
+      return this.isModelConfigured(model);
+    }
+    return Object.values(loadModelConfig().models).some(
+      (m) => m.type === this.type && this.isModelConfigured(m),
+    );
+  }
+
+  countTokens(text: string): number {
+    return countTokens(text);
+  }
+
+  async send(
+    prompt: string,
+    options: ProviderSendOptions,
+    abortSignal?: AbortSignal,
+    notifyFn?: ProviderNotifyFn,
+    onProgress?: ProviderProgressFn,
+  ): Promise<ModelResult> {
+    const model = getModelByName(options.model);
+    if (!model?.baseUrl) {
+      throw new Error(
+        `No baseUrl configured for openai-compatible model ${options.model}`,
+      );
+    }
+
+    // These servers reject requests whose prompt plus max_tokens exceeds the context
+    // window, so leave room for the prompt (or let the server decide when it is full)
+    const promptTokens =
+      countTokens(prompt) +
+      (options.systemInstruction ? countTokens(options.systemInstruction) : 0);
+    const room = model.tokenLimit - promptTokens;
+    const maxOutputTokens =
+      room > 0 && options.maxOutputTokens !== undefined
+        ? Math.min(options.maxOutputTokens, room)
+        : undefined;
+
+    return sendOpenAiPrompt(
+      prompt,
+      {
+        ...options,
+        maxOutputTokens,
+        baseUrl: model.baseUrl,
+        apiKey: model.apiKeyEnv ? process.env[model.apiKeyEnv] : undefined,
+      },
+      notifyFn,
+      abortSignal,
+      onProgress,
+    );
+  }
+
+  /**
+   * A model is usable once it has a baseUrl and, if it names a key env var, that var is set
+   */
+  private isModelConfigured(model: ModelDef): boolean {
+    return (
+      !!model.baseUrl && (!model.apiKeyEnv || !!process.env[model.apiKeyEnv])
+    );
+  }
+}
+
+// Create and export the singleton instance
+export const openaiCompatibleProvider = new OpenAiCompatibleProvider();
+
+// Register this provider with the registry
+registerProvider(openaiCompatibleProvider);
@@ -0,0 +1,55 @@
+/**
+ * OpenAI model provider
+ */
+
+import { sendOpenAiPrompt } from "../openai";
+import { ModelResult } from "../modelDefinitions";
+import { countTokens } from "../tokenCounter";
+import {
+  ModelProvider,
+  ProviderNotifyFn,
+  ProviderProgressFn,
+  ProviderSendOptions,
+} from "./providerTypes";
+import { registerProvider } from "./registry";
+
+/**
+ * Provider for models with `type: openai` in models.yaml
+ */
+class OpenAiProvider implements ModelProvider {
+  readonly type = "openai";
+  readonly displayName = "OpenAI";
+  readonly capabilities = {
+    streaming: true,
+    temperature: true,
+    topP: true,
+    topK: false,
+    systemInstruction: true,
+    thinkingBudget: false,
+    safetySettings: false,
+  };
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  countTokens(text: string): number {
+    return countTokens(text);
+  }
+
+  send(
+    prompt: string,
+    options: ProviderSendOptions,
+    abortSignal?: AbortSignal,
+    notifyFn?: ProviderNotifyFn,
+    onProgress?: ProviderProgressFn,
+  ): Promise<ModelResult> {
+    return sendOpenAiPrompt(prompt, options, notifyFn, abortSignal, onProgress);
+  }
+}
+
+// Create and export the singleton instance
+export const openaiProvider = new OpenAiProvider();
+
+// Register this provider with the registry
+registerProvider(openaiProvider);
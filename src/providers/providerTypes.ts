@@ -0,0 +1,65 @@
+/**
+ * Provider interface for model APIs
+ *
+ * This defines the common interface that every model provider must implement,
+ * so models.yaml entries can be routed by their `type` without the callers
+ * knowing which API sits behind it.
+ */
+
+import { ModelResult } from "../modelDefinitions";
+import { ModelDef, SafetySettingDef } from "../modelConfig";
+
+export type ProviderNotifyFn = (message: {
+  level: "info" | "warning" | "error" | "debug";
+  data: string;
+}) => Promise<void>;
+
+/**
+ * Partial output of a streaming request, reported as it arrives
+ */
+export interface StreamProgress {
+  text: string; // Everything received so far
+  bytes: number; // UTF-8 size of text
+}
+
+export type ProviderProgressFn = (progress: StreamProgress) => void;
+
+export interface ProviderSendOptions {
+  model: string; // Provider model name from models.yaml
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  systemInstruction?: string;
+  thinkingBudget?: number;
+  safetySettings?: SafetySettingDef[];
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean; // Can report partial output while generating
+  temperature: boolean;
+  topP: boolean;
+  topK: boolean;
+  systemInstruction: boolean;
+  thinkingBudget: boolean;
+  safetySettings: boolean;
+}
+
+export interface ModelProvider {
+  readonly type: string; // Matches `type` on models.yaml entries
+  readonly displayName: string;
+  readonly capabilities: ProviderCapabilities;
+
+  /* --- Availability ----------------------------------------------------- */
+  isConfigured(model?: ModelDef): boolean; // e.g. the API key is set; per model when given
+
+  /* --- Requests --------------------------------------------------------- */
+  countTokens(text: string, modelName: string): number;
+  send(
+    prompt: string,
+    options: ProviderSendOptions,
+    abortSignal?: AbortSignal,
+    notifyFn?: ProviderNotifyFn,
+    onProgress?: ProviderProgressFn, // Streams the reply when given and capabilities.streaming is set
+  ): Promise<ModelResult>;
+}
@@ -0,0 +1,46 @@
+/**
+ * Provider registry for model APIs
+ *
+ * This module manages the registration and retrieval of model providers,
+ * keyed by the `type` used in models.yaml.
+ */
+
+import { ModelProvider } from "./providerTypes";
+import { ModelDef } from "../modelConfig";
+
+const table: Record<string, ModelProvider> = {};
+
+/**
+ * Register a model provider
+ * @param provider The provider instance to register
+ */
+export function registerProvider(provider: ModelProvider): void {
+  table[provider.type] = provider;
+}
+
+/**
+ * Get the provider for the specified model type
+ * @param type The model type from models.yaml
+ * @returns The provider instance, or undefined if none is registered
+ */
+export function getProvider(type: string): ModelProvider | undefined {
+  return table[type];
+}
+
+/**
+ * Get every registered provider
+ * @returns The providers in registration order
+ */
+export function getProviders(): ModelProvider[] {
+  return Object.values(table);
+}
+
+/**
+ * Check whether a model type has a registered provider that is ready to use
+ * @param type The model type from models.yaml
+ * @param model Optional model entry, for providers configured per model
+ * @returns true if the provider exists and is configured
+ */
+export function isProviderConfigured(type: string, model?: ModelDef): boolean {
+  return !!table[type]?.isConfigured(model);
+}
@@ -6,7 +6,13 @@
 
 import { ToolType } from "../types/public";
 import { DebateContext, DebatePhase, DebateStrategy } from "./strategyTypes";
-import { loadPrompt, escapeUserInput } from "../prompts/promptFactory";
+import {
+  loadPrompt,
+  escapeUserInput,
+  fillPlaceholders,
+  formatCodeContext,
+  formatCandidateEntries,
+} from "../prompts/promptFactory";
 import { registerStrategy } from "./registry";
 
 /**
@@ -23,34 +29,99 @@ class OpinionStrategy implements DebateStrategy {
     logLevel: "info" as const,
   };
 
+  /**
+   * Plural name of the candidates, used by prompts shared across tools
+   */
+  readonly candidateNoun = "opinions";
+
+  /**
+   * Rubric criteria from the judge template
+   */
+  readonly judgeCriteria = ["Clarity", "Evidence", "Reasoning", "Balance", "Actionability"];
+
   /**
    * Generate a prompt for the specified debate phase
    */
   getPrompt(phase: DebatePhase, ctx: DebateContext): string {
-    const template = loadPrompt(this.toolType, phase);
+    // One pass, so placeholders inside the packed files or candidates stay untouched
+    return fillPlaceholders(loadPrompt(this.toolType, phase), {
+      ...this.placeholders(phase, ctx),
+      codeContext: formatCodeContext(ctx.codeContext),
+    });
+  }
 
-    // Replace placeholders based on the phase
+  /**
+   * Get the phase template's placeholder values, except the code context
+   */
+  private placeholders(
+    phase: DebatePhase,
+    ctx: DebateContext,
+  ): Record<string, string> {
+    // Choose the placeholders based on the phase
     switch (phase) {
       case "generate":
-        return template
-          .replace(/\${modelId}/g, String(ctx.round))
-          .replace(/\${userPrompt}/g, escapeUserInput(ctx.userPrompt));
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+        };
 
       case "critique":
-        const opinionEntries = ctx.candidates
-          .map((opinion, idx) => `## OPINION ${idx + 1}\n${opinion.trim()}`)
-          .join("\n\n");
+        // Revisers are told their candidate's number, so critics see the same numbers
+        const opinionEntries = formatCandidateEntries(
+          "OPINION",
+          ctx.candidates,
+          ctx.candidateOrder,
+          true,
+        );
 
-        return template
-          .replace(/\${modelId}/g, String(ctx.round))
-          .replace(/\${planEntries}/g, opinionEntries);
+        return {
+          modelId: ctx.modelId ?? "",
+          planEntries: opinionEntries,
+        };
 
       case "judge":
-        const judgeOpinionEntries = ctx.candidates
-          .map((opinion, idx) => `## OPINION ${idx + 1}\n${opinion.trim()}`)
+        const judgeOpinionEntries = formatCandidateEntries(
+          "OPINION",
+          ctx.candidates,
+          ctx.candidateOrder,
+        );
+
+        return { planEntries: judgeOpinionEntries };
+
+      case "revise":
+        const candidateIdx = ctx.candidateIdx;
+        if (candidateIdx === undefined) {
+          throw new Error("The revise phase requires a candidate index");
+        }
+        const critiqueEntries = ctx.critiques
+          .map((critique, idx) => `## CRITIQUE ${idx + 1}\n${critique.trim()}`)
+          .join("\n\n");
+
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+          candidateNumber: String(candidateIdx + 1),
+          previousCandidate: ctx.candidates[candidateIdx].trim(),
+          critiques: critiqueEntries,
+        };
+
+      case "selfGenerate":
+      case "selfRefine":
+        const previousOpinions = ctx.candidates
+          .map((candidate, idx) => `--- OPINION ${idx + 1} ---\n${candidate.trim()}`)
           .join("\n\n");
+        // The refine template introduces the list itself; generate only mentions it once there is one
+        const previousSection =
+          phase === "selfGenerate" && previousOpinions
+            ? `You have already given the following opinions:\n\n${previousOpinions}`
+            : previousOpinions;
 
-        return template.replace(/\${planEntries}/g, judgeOpinionEntries);
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+          candidateNumber: String(ctx.candidates.length + 1),
+          previousCandidates: previousSection,
+        };
 
       default:
         throw new Error(`Unknown debate phase: ${phase}`);
@@ -85,10 +156,10 @@ class OpinionStrategy implements DebateStrategy {
       }
     }
 
-    // If we can't determine a winner, default to the first candidate
+    // If we can't determine a winner, let the orchestrator decide how to fall back
     return {
-      success: true,
-      winnerIdx: 0,
+      success: false,
+      error: "Could not determine winning opinion from judge response",
     };
   }
 }
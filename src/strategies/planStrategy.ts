@@ -0,0 +1,175 @@
+/**
+ * Implementation plan debate strategy
+ *
+ * This strategy handles the debate process for implementation plans.
+ */
+
+import { ToolType } from "../types/public";
+import { DebateContext, DebatePhase, DebateStrategy } from "./strategyTypes";
+import {
+  loadPrompt,
+  escapeUserInput,
+  fillPlaceholders,
+  formatCodeContext,
+  formatCandidateEntries,
+} from "../prompts/promptFactory";
+import { registerStrategy } from "./registry";
+
+/**
+ * Strategy for implementation plan debates
+ */
+class PlanStrategy implements DebateStrategy {
+  readonly toolType = ToolType.Plan;
+
+  /**
+   * Default configuration for plan debates
+   */
+  readonly configDefaults = {
+    rounds: 1,
+    logLevel: "info" as const,
+  };
+
+  /**
+   * Plural name of the candidates, used by prompts shared across tools
+   */
+  readonly candidateNoun = "implementation plans";
+
+  /**
+   * Rubric criteria from the judge template
+   */
+  readonly judgeCriteria = [
+    "Comprehensiveness",
+    "Clarity",
+    "Feasibility",
+    "Efficiency",
+    "Robustness",
+  ];
+
+  /**
+   * Generate a prompt for the specified debate phase
+   */
+  getPrompt(phase: DebatePhase, ctx: DebateContext): string {
+    // One pass, so placeholders inside the packed files or candidates stay untouched
+    return fillPlaceholders(loadPrompt(this.toolType, phase), {
+      ...this.placeholders(phase, ctx),
+      codeContext: formatCodeContext(ctx.codeContext),
+    });
+  }
+
+  /**
+   * Get the phase template's placeholder values, except the code context
+   */
+  private placeholders(
+    phase: DebatePhase,
+    ctx: DebateContext,
+  ): Record<string, string> {
+    // Choose the placeholders based on the phase
+    switch (phase) {
+      case "generate":
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+        };
+
+      case "critique":
+        // Revisers are told their candidate's number, so critics see the same numbers
+        const planEntries = formatCandidateEntries(
+          "PLAN",
+          ctx.candidates,
+          ctx.candidateOrder,
+          true,
+        );
+
+        return {
+          modelId: ctx.modelId ?? "",
+          planEntries: planEntries,
+        };
+
+      case "judge":
+        const judgePlanEntries = formatCandidateEntries(
+          "PLAN",
+          ctx.candidates,
+          ctx.candidateOrder,
+        );
+
+        return { planEntries: judgePlanEntries };
+
+      case "revise":
+        const candidateIdx = ctx.candidateIdx;
+        if (candidateIdx === undefined) {
+          throw new Error("The revise phase requires a candidate index");
+        }
+        const critiqueEntries = ctx.critiques
+          .map((critique, idx) => `## CRITIQUE ${idx + 1}\n${critique.trim()}`)
+          .join("\n\n");
+
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+          candidateNumber: String(candidateIdx + 1),
+          previousCandidate: ctx.candidates[candidateIdx].trim(),
+          critiques: critiqueEntries,
+        };
+
+      case "selfGenerate":
+      case "selfRefine":
+        const previousPlans = ctx.candidates
+          .map((candidate, idx) => `--- PLAN ${idx + 1} ---\n${candidate.trim()}`)
+          .join("\n\n");
+        // The refine template introduces the list itself; generate only mentions it once there is one
+        const previousSection =
+          phase === "selfGenerate" && previousPlans
+            ? `You have already generated the following plans:\n\n${previousPlans}`
+            : previousPlans;
+
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+          candidateNumber: String(ctx.candidates.length + 1),
+          previousCandidates: previousSection,
+        };
+
+      default:
+        throw new Error(`Unknown debate phase: ${phase}`);
+    }
+  }
+
+  /**
+   * Parse the judge's decision to determine the winning plan
+   */
+  parseJudge(
+    raw: string,
+    candidates: string[],
+  ): { success: true; winnerIdx: number } | { success: false; error: string } {
+    // Try to find explicit winner marker (e.g., [[WINNER: #]])
+    const winnerMatch = raw.match(/\[\[WINNER:\s*(\d+)\]\]/i);
+    if (winnerMatch && winnerMatch[1]) {
+      const winnerIdx = parseInt(winnerMatch[1], 10) - 1; // Convert to 0-based
+      if (winnerIdx >= 0 && winnerIdx < candidates.length) {
+        return { success: true, winnerIdx };
+      }
+    }
+
+    // Plans may be merged; the judge's own plan goes under this heading
+    if (/^#\s*Final Implementation Plan/im.test(raw)) {
+      return { success: true, winnerIdx: -1 }; // -1 indicates the judge's own synthesis
+    }
+
+    // If there was only one candidate
+    if (candidates.length === 1) {
+      return { success: true, winnerIdx: 0 };
+    }
+
+    // If all else fails, return an error
+    return {
+      success: false,
+      error: "Could not determine winning plan from judge response",
+    };
+  }
+}
+
+// Create and export the singleton instance
+export const planStrategy = new PlanStrategy();
+
+// Register this strategy with the registry
+registerStrategy(planStrategy);
@@ -6,7 +6,13 @@
 
 import { ToolType } from "../types/public";
 import { DebateContext, DebatePhase, DebateStrategy } from "./strategyTypes";
-import { loadPrompt, escapeUserInput } from "../prompts/promptFactory";
+import {
+  loadPrompt,
+  escapeUserInput,
+  fillPlaceholders,
+  formatCodeContext,
+  formatCandidateEntries,
+} from "../prompts/promptFactory";
 import { parseSearchReplace } from "../utils/searchReplaceParser";
 import { registerStrategy } from "./registry";
 
@@ -24,34 +30,105 @@ class ReviewStrategy implements DebateStrategy {
     logLevel: "info" as const,
   };
 
+  /**
+   * Plural name of the candidates, used by prompts shared across tools
+   */
+  readonly candidateNoun = "code reviews";
+
+  /**
+   * Rubric criteria from the judge template
+   */
+  readonly judgeCriteria = [
+    "Correctness",
+    "Comprehensiveness",
+    "Style consistency",
+    "Safety",
+    "Clarity",
+  ];
+
   /**
    * Generate a prompt for the specified debate phase
    */
   getPrompt(phase: DebatePhase, ctx: DebateContext): string {
-    const template = loadPrompt(this.toolType, phase);
+    // One pass, so placeholders inside the packed files or candidates stay untouched
+    return fillPlaceholders(loadPrompt(this.toolType, phase), {
+      ...this.placeholders(phase, ctx),
+      codeContext: formatCodeContext(ctx.codeContext),
+    });
+  }
 
-    // Replace placeholders based on the phase
+  /**
+   * Get the phase template's placeholder values, except the code context
+   */
+  private placeholders(
+    phase: DebatePhase,
+    ctx: DebateContext,
+  ): Record<string, string> {
+    // Choose the placeholders based on the phase
     switch (phase) {
       case "generate":
-        return template
-          .replace(/\${modelId}/g, String(ctx.round))
-          .replace(/\${userPrompt}/g, escapeUserInput(ctx.userPrompt));
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+        };
 
       case "critique":
-        const reviewEntries = ctx.candidates
-          .map((review, idx) => `## REVIEW ${idx + 1}\n${review.trim()}`)
-          .join("\n\n");
-
-        return template
-          .replace(/\${modelId}/g, String(ctx.round))
-          .replace(/\${planEntries}/g, reviewEntries);
+        // Revisers are told their candidate's number, so critics see the same numbers
+        const reviewEntries = formatCandidateEntries(
+          "REVIEW",
+          ctx.candidates,
+          ctx.candidateOrder,
+          true,
+        );
+
+        return {
+          modelId: ctx.modelId ?? "",
+          planEntries: reviewEntries,
+        };
 
       case "judge":
-        const judgeReviewEntries = ctx.candidates
-          .map((review, idx) => `## REVIEW ${idx + 1}\n${review.trim()}`)
+        const judgeReviewEntries = formatCandidateEntries(
+          "REVIEW",
+          ctx.candidates,
+          ctx.candidateOrder,
+        );
+
+        return { planEntries: judgeReviewEntries };
+
+      case "revise":
+        const candidateIdx = ctx.candidateIdx;
+        if (candidateIdx === undefined) {
+          throw new Error("The revise phase requires a candidate index");
+        }
+        const critiqueEntries = ctx.critiques
+          .map((critique, idx) => `## CRITIQUE ${idx + 1}\n${critique.trim()}`)
           .join("\n\n");
 
-        return template.replace(/\${planEntries}/g, judgeReviewEntries);
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+          candidateNumber: String(candidateIdx + 1),
+          previousCandidate: ctx.candidates[candidateIdx].trim(),
+          critiques: critiqueEntries,
+        };
+
+      case "selfGenerate":
+      case "selfRefine":
+        const previousReviews = ctx.candidates
+          .map((candidate, idx) => `--- REVIEW ${idx + 1} ---\n${candidate.trim()}`)
+          .join("\n\n");
+        // The refine template introduces the list itself; generate only mentions it once there is one
+        const previousSection =
+          phase === "selfGenerate" && previousReviews
+            ? `You have already written the following reviews:\n\n${previousReviews}`
+            : previousReviews;
+
+        return {
+          modelId: ctx.modelId ?? "",
+          userPrompt: escapeUserInput(ctx.userPrompt),
+          candidateNumber: String(ctx.candidates.length + 1),
+          previousCandidates: previousSection,
+        };
 
       default:
         throw new Error(`Unknown debate phase: ${phase}`);
@@ -77,8 +154,8 @@ class ReviewStrategy implements DebateStrategy {
     // For reviews, we need to validate the format regardless of winner selection
     const parseResult = parseSearchReplace(raw);
 
-    // If the judge provided valid SEARCH/REPLACE blocks, use that
-    if (parseResult.valid && parseResult.blocks.length > 0) {
+    // If the judge wrote its own SEARCH/REPLACE blocks, use that
+    if (parseResult.blocks.length > 0) {
       return { success: true, winnerIdx: -1 }; // -1 indicates the judge's own synthesis
     }
 
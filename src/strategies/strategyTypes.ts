@@ -7,13 +7,23 @@
 
 import { ToolType } from "../types/public";
 
-export type DebatePhase = "generate" | "critique" | "judge";
+export type DebatePhase =
+  | "generate"
+  | "critique"
+  | "revise"
+  | "judge"
+  | "selfGenerate" // Single-model debate: write another distinct candidate
+  | "selfRefine"; // Single-model debate: improve on all previous candidates
 
 export interface DebateContext {
   userPrompt: string;
+  codeContext?: string; // Packed files XML shared by every phase
   candidates: string[];
   critiques: string[];
   round: number;
+  modelId?: string; // Anonymous ID of the model the prompt is for (e.g., "A")
+  candidateIdx?: number; // Candidate being revised (revise phase only)
+  candidateOrder?: number[]; // Presentation order of candidates (critique and judge phases)
 }
 
 export interface DebateStrategy {
@@ -21,8 +31,13 @@ export interface DebateStrategy {
   /* --- Prompt helpers --------------------------------------------------- */
   getPrompt(phase: DebatePhase, ctx: DebateContext): string;
   /* --- Judge parsing ----------------------------------------------------- */
+  /** winnerIdx is the chosen entry's position in the judge prompt, or -1 for the judge's own synthesis */
   parseJudge(raw: string, candidates: string[]): { success: true; winnerIdx: number }
                                               | { success: false; error: string };
+  /** Plural name of the candidates, e.g. "code reviews" */
+  readonly candidateNoun: string;
+  /** Rubric criteria the judge scores each candidate on (names match the judge template) */
+  readonly judgeCriteria: string[];
   /* --- Defaults --------------------------------------------------------- */
   configDefaults?: Partial<import("../types/public").DebateConfig>;
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { encoding_for_model, TiktokenModel } from '@dqbd/tiktoken';
+import type { ModelUsage } from './modelDefinitions';
 
 /**
  * Estimates the number of tokens in a string using the specified model's tokenizer.
@@ -28,6 +29,24 @@ export function countTokens(text: string, modelName: TiktokenModel = 'gpt-4'): n
   }
 }
 
+/**
+ * Counts prompt and completion tokens locally for providers that do not report usage.
+ * 
+ * @param prompt - The prompt that was sent
+ * @param completion - The text that came back
+ * @returns Usage flagged as estimated
+ */
+export function estimateUsage(prompt: string, completion: string): ModelUsage {
+  const promptTokens = countTokens(prompt);
+  const completionTokens = countTokens(completion);
+  return {
+    prompt: promptTokens,
+    completion: completionTokens,
+    total: promptTokens + completionTokens,
+    estimated: true,
+  };
+}
+
 /**
  * Provides a rough approximation of token count based on character count.
  * This is used as a fallback if the tokenizer fails.
@@ -9,6 +9,7 @@
 export enum ToolType {
   Opinion = "opinion",
   Review = "review",
+  Plan = "plan",
 }
 
 /* ------------------------------------------------------------------ */
@@ -17,8 +18,13 @@ export enum ToolType {
 export interface DebateConfig {
   enabled?: boolean; // default: false
   rounds?: number; // default: 1
-  strategy?: "opinion" | "review"; // auto-derived if omitted
+  strategy?: "opinion" | "review" | "plan"; // auto-derived if omitted
   maxTotalTokens?: number; // optional cost guard
+  maxCostUsd?: number; // optional dollar cap checked before each phase; defaults.maxCostUsd in models.yaml
+  consensusThreshold?: number; // default: 0.9 – stop early once candidates agree
+  seed?: number; // seeds model ID and candidate order shuffles; random if omitted
+  swapJudge?: boolean; // default: false – re-judge with reversed order to detect position bias
+  mergeEdits?: boolean; // default: false – review debates: keep every candidate's non-conflicting edits; the judge only settles conflicts
   logLevel?: "warn" | "info" | "debug";
 }
 
@@ -36,23 +42,115 @@ export interface DebateOptions {
 /* ------------------------------------------------------------------ */
 /* RESULT                                                             */
 /* ------------------------------------------------------------------ */
+export interface CostBreakdown {
+  totalUsd: number;
+  perModel: Record<string, number>; // Keyed by model name
+  perPhase?: Record<string, number>; // Debate phases only
+}
+
+export interface ModelFallback {
+  fromModel: string; // Model that failed
+  toModel: string; // Next model tried
+  reason: string; // Error from the failed model
+}
+
+export interface CostEstimate {
+  calls: number; // Upper bound; early consensus or failures make fewer
+  promptTokens: number;
+  completionTokens: number; // Assumed reply lengths, not measured
+  costUsd: number;
+  perPhase?: Record<string, { calls: number; costUsd: number }>; // Debate phases only
+}
+
 export interface DebateMeta {
   warnings: DebateWarning[]; // always populated
   tokenUsage: { prompt: number; completion: number };
+  cost: CostBreakdown;
   timings: { totalMs: number; perPhase: Record<string, number> };
   strategy: string;
-  rounds: number;
+  rounds: number; // Rounds that ran to completion
   winner?: {
     modelId: string; // Anonymous model ID (e.g., "A", "B")
     modelName: string; // Actual model name (e.g., "gpt-5-2025-08-07")
     confidence?: number; // Judge confidence score (0.0-1.0)
+    rationale?: string; // Why the judge(s) chose this candidate
+  };
+  judgeResult?: JudgeResult; // Structured verdict, also set when the judge wrote a synthesis
+  consensus?: {
+    score: number; // Consensus score from the latest check (0.0-1.0)
+    reasoning: string;
+    reached: boolean; // true if the debate stopped early
+    round: number; // Round after which the check ran
   };
+  judgeVotes?: JudgeVote[]; // One entry per judge that returned a usable verdict
+  judgeAggregation?: "majority" | "confidence";
+  seed: number; // Replays the same model IDs and candidate orderings
+  validation?: ReviewValidation; // Review debates only
+  merge?: ReviewMerge; // Review debates with mergeEdits only
+}
+
+export interface ReviewMerge {
+  reviews: number; // Candidate reviews merged
+  blocks: MergedBlockSource[]; // In the order they appear in the merged review
+  conflicts: number; // Regions where the reviews proposed different edits
+  resolved: number; // Conflicts the judge settled; the rest kept the first proposal
+  unplaced: number; // Blocks left out because they were malformed or not found once in their file
+}
+
+export interface MergedBlockSource {
+  filePath: string;
+  lines?: [number, number]; // Lines of the original file the block replaces; omitted for new files
+  proposedBy: { modelId: string; modelName: string }[]; // Empty when the judge wrote the block
+  resolvedBy?: string; // Judge model that chose or wrote the block to settle a conflict
+}
+
+export interface ReviewValidation {
+  blocks: number; // SEARCH/REPLACE blocks in the final review
+  repairAttempts: number; // Repair requests sent to the model
+  repaired: number; // Failing blocks fixed by a repair
+  dropped: number; // Failing blocks the model withdrew during repair
+  failures: ReviewBlockFailure[]; // Blocks that still fail
+}
+
+export interface ReviewBlockFailure {
+  line: number; // Line of the block (or malformed block) in the review
+  filePath?: string;
+  error: string;
+}
+
+export interface JudgeResult {
+  winnerIdx: number; // -1 when the judge wrote its own synthesis
+  confidence?: number; // 0.0-1.0, as reported by the judge
+  criteriaScores: Record<string, number>; // Rubric criterion -> score (0-10)
+  rationale: string;
+}
+
+export interface JudgeVote extends JudgeResult {
+  judgeModelName: string;
+  winnerModelId?: string; // Anonymous ID of the chosen candidate's model
+  flippedOnSwap?: boolean; // Set when swapJudge is on; true if the reversed order changed the verdict
 }
 
 export interface DebateWarning {
-  code: "GEN_FAIL" | "JUDGE_MALFORMED" | "VALIDATION_FAIL" | "TOKEN_BUDGET";
+  code:
+    | "GEN_FAIL"
+    | "JUDGE_MALFORMED"
+    | "CONSENSUS_MALFORMED"
+    | "POSITION_BIAS"
+    | "COST_CAP"
+    | "VALIDATION_FAIL"
+    | "TOKEN_BUDGET";
   message: string;
-  phase: "generate" | "critique" | "judge" | "validate";
+  phase:
+    | "generate"
+    | "critique"
+    | "revise"
+    | "consensus"
+    | "judge"
+    | "validate"
+    | "merge"
+    | "selfGenerate"
+    | "selfRefine";
 }
 
 export type DebateResult =
@@ -63,9 +161,29 @@ export type DebateResult =
   | ({ toolType: ToolType.Review; review: string } & { meta: DebateMeta } & (
         | {}
         | { debateLog: DebateLog }
+      ))
+  | ({ toolType: ToolType.Plan; plan: string } & { meta: DebateMeta } & (
+        | {}
+        | { debateLog: DebateLog }
       ));
 
 export interface DebateLog {
   transcript: string[];
   fallbacks: { phase: string; reason: string }[];
+  candidateHistory: DebateRoundCandidates[]; // Candidates as they stood after each round
+  presentationOrders: {
+    phase: string;
+    round: number;
+    viewer: string; // Critic model ID or judge
+    modelIds: string[]; // Anonymous IDs of the candidates' models, in the order shown
+  }[];
+}
+
+export interface DebateRoundCandidates {
+  round: number;
+  candidates: {
+    modelId: string; // Anonymous model ID (e.g., "A", "B")
+    modelName: string;
+    text: string;
+  }[];
 }
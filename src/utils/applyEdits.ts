@@ -0,0 +1,351 @@
+/**
+ * Apply SEARCH/REPLACE edits from a sage-review response to disk
+ *
+ * Every block must name its file and its SEARCH text must occur exactly once
+ * in that file (after the file's earlier blocks are applied). A block with an
+ * empty SEARCH section creates its file. Edits are all-or-nothing: if any
+ * block fails, no file is written. Files are replaced by writing a temporary
+ * file next to each one and renaming it into place.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  parseSearchReplace,
+  formatParseErrors,
+  SRBlock,
+  SRParseError,
+} from "./searchReplaceParser";
+import { createUnifiedDiff } from "./unifiedDiff";
+
+/**
+ * Outcome of one block. "skipped" blocks matched their file but were not
+ * written because another block failed.
+ */
+export interface ApplyBlockResult {
+  index: number; // 1-based position in the response
+  line: number; // Line of the block's <<<<<<< SEARCH marker
+  filePath?: string;
+  status: "applied" | "failed" | "skipped";
+  error?: string;
+}
+
+export interface ApplyResult {
+  written: boolean; // Whether any file on disk was changed
+  dryRun: boolean;
+  blocks: ApplyBlockResult[];
+  errors: SRParseError[]; // Blocks that could not be parsed
+  files: string[]; // Files changed or created, or that would be in a dry run
+  diff?: string; // Unified diff of the changes, for dry runs
+}
+
+/**
+ * Count the occurrences of a string, including overlapping ones
+ */
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (
+    let idx = haystack.indexOf(needle);
+    idx !== -1;
+    idx = haystack.indexOf(needle, idx + 1)
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Resolve a block's file path against rootDir; the path, relative or
+ * absolute, must stay inside it
+ */
+function resolveFilePath(
+  block: SRBlock,
+  rootDir: string,
+): { path: string } | { error: string } {
+  if (!block.filePath) {
+    return { error: "No file path given above the block" };
+  }
+
+  const root = path.resolve(rootDir);
+  const resolved = path.resolve(root, block.filePath);
+  const relative = path.relative(root, resolved);
+  if (
+    relative === "" ||
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    return { error: `${block.filePath} is outside rootDir ${root}` };
+  }
+  return { path: resolved };
+}
+
+/**
+ * Find where a block's SEARCH text sits in the current content of its file
+ * @returns The match offset with the SEARCH and REPLACE text in the file's
+ *   line endings, or the reason the block does not apply
+ */
+export function locateBlock(
+  content: string,
+  block: SRBlock,
+): { index: number; search: string; replace: string } | { error: string } {
+  // Match the file's line endings
+  const crlf = content.includes("\r\n");
+  const search = crlf ? block.search.replace(/\r?\n/g, "\r\n") : block.search;
+  const replace = crlf ? block.replace.replace(/\r?\n/g, "\r\n") : block.replace;
+
+  const matches = countOccurrences(content, search);
+  if (matches === 0) {
+    return { error: "SEARCH text not found in the file" };
+  }
+  if (matches > 1) {
+    return {
+      error: `SEARCH text matches ${matches} places in the file; include more surrounding lines to make it unique`,
+    };
+  }
+
+  return { index: content.indexOf(search), search, replace };
+}
+
+/**
+ * Apply one block to the current content of its file
+ * @returns The new content, or the reason the block does not apply
+ */
+export function applyBlock(
+  content: string,
+  block: SRBlock,
+): { content: string } | { error: string } {
+  if (!block.search.trim()) {
+    if (content !== "") {
+      return {
+        error: "SEARCH section is empty but the file already has content; include the lines to replace",
+      };
+    }
+    return { content: block.replace ? `${block.replace}\n` : "" };
+  }
+
+  const located = locateBlock(content, block);
+  if ("error" in located) {
+    return located;
+  }
+
+  const { index, search, replace } = located;
+  return {
+    content: content.slice(0, index) + replace + content.slice(index + search.length),
+  };
+}
+
+interface FileChange {
+  path: string;
+  original: string;
+  updated: string;
+  created: boolean; // The file did not exist before
+}
+
+/**
+ * Replace files on disk, restoring the originals and removing any directories
+ * made for new files if a write or rename fails
+ */
+function writeFilesAtomically(changes: FileChange[]): void {
+  const temps: string[] = [];
+  const createdDirs: string[] = []; // Topmost directory made for each new file
+  const removeCreatedDirs = () =>
+    createdDirs.forEach((dir) =>
+      fs.rmSync(dir, { recursive: true, force: true }),
+    );
+  try {
+    for (const change of changes) {
+      if (change.created) {
+        const dir = fs.mkdirSync(path.dirname(change.path), {
+          recursive: true,
+        });
+        if (dir) {
+          createdDirs.push(dir);
+        }
+      }
+      const temp = path.join(
+        path.dirname(change.path),
+        `.${path.basename(change.path)}.sage-apply-${process.pid}.tmp`,
+      );
+      fs.writeFileSync(
+        temp,
+        change.updated,
+        change.created ? undefined : { mode: fs.statSync(change.path).mode },
+      );
+      temps.push(temp);
+    }
+  } catch (error) {
+    temps.forEach((temp) => fs.rmSync(temp, { force: true }));
+    removeCreatedDirs();
+    throw error;
+  }
+
+  const renamed: FileChange[] = [];
+  try {
+    changes.forEach((change, i) => {
+      fs.renameSync(temps[i], change.path);
+      renamed.push(change);
+    });
+  } catch (error) {
+    temps.forEach((temp) => fs.rmSync(temp, { force: true }));
+    renamed.forEach((change) =>
+      change.created
+        ? fs.rmSync(change.path, { force: true })
+        : fs.writeFileSync(change.path, change.original),
+    );
+    removeCreatedDirs();
+    throw error;
+  }
+}
+
+/**
+ * Apply the SEARCH/REPLACE blocks in a review response
+ * @param text The sage-review response
+ * @param options rootDir that every file must be inside and relative paths
+ *   resolve against; dryRun to return a diff instead of writing
+ * @returns A per-block report, plus the diff for dry runs
+ * @throws If writing the files fails; the originals are left in place
+ */
+export function applyEdits(
+  text: string,
+  options: { rootDir: string; dryRun?: boolean },
+): ApplyResult {
+  const dryRun = options.dryRun ?? false;
+  const { blocks, errors } = parseSearchReplace(text);
+
+  if (blocks.length === 0) {
+    return {
+      written: false,
+      dryRun,
+      blocks: [],
+      errors,
+      files: [],
+    };
+  }
+
+  const results: ApplyBlockResult[] = [];
+  const files = new Map<string, Omit<FileChange, "path">>();
+
+  blocks.forEach((block, i) => {
+    const result: ApplyBlockResult = {
+      index: i + 1,
+      line: block.line,
+      filePath: block.filePath,
+      status: "failed",
+    };
+    results.push(result);
+
+    const resolved = resolveFilePath(block, options.rootDir);
+    if ("error" in resolved) {
+      result.error = resolved.error;
+      return;
+    }
+    result.filePath = resolved.path;
+
+    let file = files.get(resolved.path);
+    if (!file) {
+      try {
+        if (!block.search.trim() && !fs.existsSync(resolved.path)) {
+          file = { original: "", updated: "", created: true };
+        } else {
+          const original = fs.readFileSync(resolved.path, "utf8");
+          file = { original, updated: original, created: false };
+        }
+        files.set(resolved.path, file);
+      } catch (error) {
+        result.error = `Cannot read file: ${error instanceof Error ? error.message : String(error)}`;
+        return;
+      }
+    }
+
+    const applied = applyBlock(file.updated, block);
+    if ("error" in applied) {
+      result.error = applied.error;
+      return;
+    }
+    file.updated = applied.content;
+    result.status = "applied";
+  });
+
+  const changes: FileChange[] = Array.from(files.entries())
+    .filter(([, file]) => file.created || file.updated !== file.original)
+    .map(([filePath, file]) => ({ path: filePath, ...file }));
+  const failed = errors.length > 0 || results.some((r) => r.status === "failed");
+
+  if (dryRun) {
+    return {
+      written: false,
+      dryRun,
+      blocks: results,
+      errors,
+      files: changes.map((change) => change.path),
+      diff: changes
+        .map((change) =>
+          createUnifiedDiff(
+            change.path,
+            change.original,
+            change.updated,
+            change.created ? "/dev/null" : change.path,
+          ),
+        )
+        .join(""),
+    };
+  }
+
+  if (failed) {
+    for (const result of results) {
+      if (result.status === "applied") {
+        result.status = "skipped";
+        result.error = "Not written because other blocks failed";
+      }
+    }
+    return { written: false, dryRun, blocks: results, errors, files: [] };
+  }
+
+  writeFilesAtomically(changes);
+  return {
+    written: changes.length > 0,
+    dryRun,
+    blocks: results,
+    errors,
+    files: changes.map((change) => change.path),
+  };
+}
+
+/**
+ * Describe an apply result for the tool response
+ * @param result The result of applyEdits
+ * @returns A summary line, one line per block and the diff for dry runs
+ */
+export function formatApplyReport(result: ApplyResult): string {
+  const ok = result.blocks.filter((block) => block.status === "applied").length;
+  const failed =
+    result.blocks.filter((block) => block.status === "failed").length +
+    result.errors.length;
+  const total = result.blocks.length + result.errors.length;
+
+  let summary: string;
+  if (result.blocks.length === 0) {
+    summary = "No SEARCH/REPLACE blocks found. No files were changed.";
+  } else if (result.dryRun) {
+    summary = `Dry run: ${ok} of ${total} blocks apply cleanly to ${result.files.length} file(s). Nothing was written.`;
+  } else if (failed === 0) {
+    summary = `Applied ${ok} of ${total} blocks to ${result.files.length} file(s).`;
+  } else {
+    summary = `No files were changed: ${failed} of ${total} blocks failed.`;
+  }
+
+  const lines = [summary, ""];
+  for (const block of result.blocks) {
+    lines.push(
+      `Block ${block.index} (line ${block.line}, ${block.filePath ?? "no file"}): ${block.status}${block.error ? ` - ${block.error}` : ""}`,
+    );
+  }
+  if (result.errors.length > 0) {
+    lines.push("", "Malformed blocks:", formatParseErrors(result.errors));
+  }
+  if (result.diff) {
+    lines.push("", "```diff", result.diff.trimEnd(), "```");
+  }
+  return lines.join("\n");
+}
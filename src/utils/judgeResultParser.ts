@@ -0,0 +1,79 @@
+/**
+ * Parser for the structured parts of a judge's verdict
+ *
+ * Besides picking a winner, judges report a confidence score, a score for each
+ * rubric criterion and a short rationale. This utility extracts those parts so
+ * they can be surfaced in the debate metadata.
+ */
+
+/**
+ * Extract the confidence score (0.0-1.0) from the judge's response
+ * @param text The raw judge response
+ * @returns The confidence score, or undefined if the judge did not give one
+ */
+export function extractConfidenceScore(text: string): number | undefined {
+  const match = text.match(/Confidence Score:\s*(0(?:\.\d+)?|1(?:\.0+)?)\b/i);
+  if (match && match[1]) {
+    return parseFloat(match[1]);
+  }
+  return undefined;
+}
+
+/**
+ * Extract per-criterion rubric scores (0-10) from the judge's response
+ * @param text The raw judge response
+ * @param criteria The rubric criteria the judge was asked to score
+ * @returns Scores keyed by criterion name; criteria without a score are omitted
+ */
+export function extractCriteriaScores(
+  text: string,
+  criteria: string[],
+): Record<string, number> {
+  const scores: Record<string, number> = {};
+
+  for (const criterion of criteria) {
+    const escaped = criterion.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    // Accept "- Clarity: 8/10", "**Clarity**: 8" and similar list formats
+    const regex = new RegExp(
+      `^[\\s*-]*\\**${escaped}\\**\\s*:\\s*(\\d+(?:\\.\\d+)?)\\s*(?:/\\s*10)?`,
+      "im",
+    );
+    const match = text.match(regex);
+    if (match && match[1]) {
+      scores[criterion] = Math.min(10, parseFloat(match[1]));
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Extract the judge's rationale (the paragraph after "Rationale:")
+ * @param text The raw judge response
+ * @returns The rationale, or an empty string if none was given
+ */
+export function extractRationale(text: string): string {
+  const match = text.match(/Rationale:\s*([\s\S]*?)(?=\n\s*\n|$)/i);
+  return match ? match[1].trim() : "";
+}
+
+/**
+ * Parse every structured part of a judge's verdict except the winner
+ * @param text The raw judge response
+ * @param criteria The rubric criteria the judge was asked to score
+ * @returns The confidence, criteria scores and rationale
+ */
+export function parseJudgeDetails(
+  text: string,
+  criteria: string[],
+): {
+  confidence?: number;
+  criteriaScores: Record<string, number>;
+  rationale: string;
+} {
+  return {
+    confidence: extractConfidenceScore(text),
+    criteriaScores: extractCriteriaScores(text, criteria),
+    rationale: extractRationale(text),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * MCP progress notifications for streaming model output
+ *
+ * A tool call may stream several replies at once (a debate's parallel
+ * generations) or one after another (fallbacks). Each gets its own stream from
+ * the reporter, and the client sees one progress value: the bytes received
+ * across all of them, with the latest partial output as the message.
+ */
+
+import { StreamProgress, ProviderProgressFn } from "../providers/providerTypes";
+
+// Minimum gap between notifications, so token-by-token streams don't flood the client
+const PROGRESS_INTERVAL_MS = 500;
+
+// Characters of partial output shown in each notification
+const PREVIEW_CHARS = 200;
+
+export interface ProgressReporter {
+  /**
+   * Start reporting one streaming reply
+   * @param label Shown before the partial output, e.g. the model name
+   * @returns The callback to hand to the provider
+   */
+  stream(label: string): ProviderProgressFn;
+
+  /**
+   * Send the latest progress the throttle held back, once a reply has finished streaming
+   */
+  flush(): void;
+}
+
+/**
+ * Create a reporter that sends `notifications/progress` for the client's progressToken
+ * @param progressToken The token from the tool request's `_meta`
+ * @param sendNotification The tool handler's notification sender
+ */
+export function createProgressReporter(
+  progressToken: string | number,
+  sendNotification: (notification: any) => Promise<void>,
+): ProgressReporter {
+  const bytesPerStream: number[] = [];
+  let lastSent = 0;
+  let pending: (StreamProgress & { label: string }) | undefined; // Held back by the throttle
+
+  const send = ({ label, text, bytes }: StreamProgress & { label: string }) => {
+    lastSent = Date.now();
+    pending = undefined;
+
+    const preview = text.slice(-PREVIEW_CHARS).replace(/\s+/g, " ").trim();
+    sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: bytesPerStream.reduce((sum, value) => sum + value, 0),
+        message: `${label} (${bytes.toLocaleString()} bytes): …${preview}`,
+      },
+    }).catch(() => {
+      // Progress is best-effort; a closed connection must not fail the request
+    });
+  };
+
+  return {
+    stream(label: string): ProviderProgressFn {
+      const index = bytesPerStream.push(0) - 1;
+
+      return ({ text, bytes }: StreamProgress) => {
+        // A retried request starts over; keep the total from going backwards
+        bytesPerStream[index] = Math.max(bytesPerStream[index], bytes);
+
+        if (Date.now() - lastSent < PROGRESS_INTERVAL_MS) {
+          pending = { label, text, bytes };
+          return;
+        }
+        send({ label, text, bytes });
+      };
+    },
+
+    flush(): void {
+      if (pending) {
+        send(pending);
+      }
+    },
+  };
+}
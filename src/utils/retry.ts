@@ -0,0 +1,213 @@
+/**
+ * Shared retry policy for provider requests
+ *
+ * Every provider retries rate limits, server errors, "overloaded" responses
+ * and transient network failures the same way: exponential backoff with full
+ * jitter, stretched to honour any retry-after or rate limit reset header.
+ */
+
+import { getDefaults } from "../modelConfig";
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Delay before the first retry, doubled on each retry
+  maxDelayMs: number; // Cap on any single wait, including header-driven ones
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+/**
+ * Get the retry policy from `defaults.retry` in models.yaml
+ * @returns The configured policy, filled in with defaults
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...getDefaults()?.retry };
+}
+
+/**
+ * Check whether an error is transient: rate limits, server errors, timeouts,
+ * "overloaded" responses and network failures. Cancellations never are.
+ * @param error The error thrown by a provider request
+ * @returns true if the request may succeed if sent again
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as any)?.status;
+  if (typeof status === "number") {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const message = (
+    error instanceof Error ? error.message : String(error)
+  ).toLowerCase();
+  if (message.includes("cancelled") || (error as any)?.name === "AbortError") {
+    return false;
+  }
+  return (
+    /status (408|429|5\d\d)\b/.test(message) ||
+    message.includes("timeout") ||
+    message.includes("timed out") ||
+    message.includes("unreachable") ||
+    message.includes("network") ||
+    message.includes("socket hang up") ||
+    message.includes("econnreset") ||
+    message.includes("econnrefused") ||
+    message.includes("enotfound") ||
+    message.includes("overloaded")
+  );
+}
+
+/**
+ * Parse a duration like "1m20s", "30s", "250ms" or "6m0.5s"
+ * @param value The header value
+ * @returns Milliseconds, or undefined if nothing was recognised
+ */
+function parseDuration(value: string): number | undefined {
+  let totalMs = 0;
+  let matched = false;
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    matched = true;
+    const amount = parseFloat(match[1]);
+    const unitMs = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }[
+      match[2] as "ms" | "s" | "m" | "h"
+    ];
+    totalMs += amount * unitMs;
+  }
+  return matched ? Math.ceil(totalMs) : undefined;
+}
+
+/**
+ * Read a header from an SDK error, whichever shape its headers come in
+ */
+function getHeader(error: unknown, name: string): string | undefined {
+  const headers = (error as any)?.headers;
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") {
+    return headers.get(name) ?? undefined;
+  }
+  return headers[name] ?? headers[name.toLowerCase()] ?? undefined;
+}
+
+/**
+ * Work out how long the server asked us to wait before retrying
+ * @param error The error thrown by a provider request
+ * @returns Milliseconds from retry-after-ms, retry-after (seconds or HTTP date)
+ *   or x-ratelimit-reset-* headers, or undefined if none were sent
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const retryAfterMs = getHeader(error, "retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = getHeader(error, "retry-after");
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  // OpenAI-style reset durations; wait for whichever limit resets last
+  const resets = [
+    "x-ratelimit-reset-tokens",
+    "x-ratelimit-reset-requests",
+  ]
+    .map((name) => getHeader(error, name))
+    .map((value) => (value ? parseDuration(value) : undefined))
+    .filter((ms): ms is number => ms !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Compute the wait before a retry: exponential backoff with full jitter,
+ * never shorter than the server's retry-after and never above maxDelayMs
+ * @param attempt The retry number, starting at 1
+ * @param policy The retry policy
+ * @param retryAfterMs Wait requested by the server, if any
+ * @returns Milliseconds to wait
+ */
+export function computeBackoffMs(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+): number {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const jittered = Math.random() * Math.min(exponential, policy.maxDelayMs);
+  return Math.ceil(Math.min(Math.max(jittered, retryAfterMs ?? 0), policy.maxDelayMs));
+}
+
+/**
+ * Wait for a delay unless the request is cancelled first
+ */
+function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(new Error("Request was cancelled"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Request was cancelled"));
+    };
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a provider request, retrying transient failures under the retry policy
+ * @param request The request to run; called again for each retry
+ * @param options label for notifications, optional notifier, abort signal and policy
+ * @returns The request's result
+ * @throws The last error once retries are exhausted, or any non-retryable error
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: {
+    label: string;
+    notifyFn?: (message: {
+      level: "info" | "warning" | "error" | "debug";
+      data: string;
+    }) => Promise<void>;
+    abortSignal?: AbortSignal;
+    policy?: RetryPolicy;
+  },
+): Promise<T> {
+  const policy = options.policy ?? getRetryPolicy();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (
+        attempt >= policy.maxRetries ||
+        options.abortSignal?.aborted ||
+        !isRetryableError(error)
+      ) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      const delayMs = computeBackoffMs(attempt + 1, policy, retryAfterMs);
+      if (options.notifyFn) {
+        await options.notifyFn({
+          level: "warning",
+          data: `${options.label} request failed (${error instanceof Error ? error.message : String(error)}). Retry ${attempt + 1}/${policy.maxRetries} in ${delayMs}ms${retryAfterMs !== undefined ? " as requested by the server" : ""}`,
+        });
+      }
+      await sleep(delayMs, options.abortSignal);
+    }
+  }
+}
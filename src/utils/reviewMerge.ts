@@ -0,0 +1,428 @@
+/**
+ * Merging of review candidates
+ *
+ * In merge mode a review debate keeps the edits of every candidate instead of
+ * one winner's. Each block is located in the packed files and grouped with
+ * the blocks that replace overlapping text. A region that only one review
+ * edits, or that every review editing it changes the same way, is kept as
+ * is; the regions where reviews disagree go to the judge to settle.
+ */
+
+import * as path from "path";
+import { unpackFiles } from "../pack";
+import { reviewMergePrompt } from "../prompts/debatePrompts";
+import {
+  MergedBlockSource,
+  ReviewBlockFailure,
+  ReviewMerge,
+} from "../types/public";
+import { locateBlock } from "./applyEdits";
+import { findPackedFile } from "./reviewValidator";
+import {
+  parseSearchReplace,
+  formatSearchReplaceBlock,
+  SRBlock,
+} from "./searchReplaceParser";
+
+// Unchanged lines shown around each conflicting region
+const CONTEXT_LINES = 3;
+
+/**
+ * A candidate review and the model that wrote it
+ */
+export interface ReviewProposal {
+  modelId: string;
+  modelName: string;
+  text: string;
+}
+
+/**
+ * A block located in the file it edits
+ */
+interface PlacedBlock {
+  proposer: number; // Index into the proposals
+  block: SRBlock;
+  file: string; // Packed source path, or the normalized path of a new file
+  start: number; // Offset of the SEARCH text in the original file
+  end: number; // Offset just past it; new files cover the whole file
+}
+
+/**
+ * Overlapping blocks from one or more reviews
+ */
+interface EditRegion {
+  file: string;
+  start: number;
+  end: number;
+  proposals: { proposer: number; blocks: SRBlock[] }[]; // In proposal order
+}
+
+/**
+ * A block kept for the merged review
+ */
+interface MergedEdit {
+  file: string;
+  start: number;
+  block: SRBlock;
+  source: MergedBlockSource;
+}
+
+/**
+ * Get the 1-based line an offset falls on
+ */
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split("\n").length;
+}
+
+/**
+ * Identify a review's edits to a region, so identical proposals compare equal
+ */
+function editKey(blocks: SRBlock[]): string {
+  return JSON.stringify(blocks.map((block) => [block.search, block.replace]));
+}
+
+/**
+ * Locate every block of every review in the packed files
+ * @returns The placed blocks in review order, and the blocks that could not be placed
+ */
+function placeBlocks(
+  proposals: ReviewProposal[],
+  files: Map<string, string>,
+): {
+  placed: PlacedBlock[];
+  unplaced: (ReviewBlockFailure & { modelId: string })[];
+} {
+  const placed: PlacedBlock[] = [];
+  const unplaced: (ReviewBlockFailure & { modelId: string })[] = [];
+
+  proposals.forEach((proposal, proposer) => {
+    const { blocks, errors } = parseSearchReplace(proposal.text);
+    const skip = (line: number, error: string, filePath?: string) =>
+      unplaced.push({ modelId: proposal.modelId, line, filePath, error });
+
+    errors.forEach((error) => skip(error.line, error.message));
+
+    for (const block of blocks) {
+      if (!block.filePath) {
+        skip(block.line, "No file path above the block");
+        continue;
+      }
+
+      const source = findPackedFile(block.filePath, files);
+      if (!block.search.trim()) {
+        if (source !== undefined && files.get(source) !== "") {
+          skip(
+            block.line,
+            "SEARCH section is empty but the file already has content",
+            block.filePath,
+          );
+          continue;
+        }
+        placed.push({
+          proposer,
+          block,
+          file: source ?? path.normalize(block.filePath),
+          start: 0,
+          end: Infinity,
+        });
+        continue;
+      }
+
+      if (source === undefined) {
+        skip(
+          block.line,
+          `${block.filePath} is not one of the files provided as context`,
+          block.filePath,
+        );
+        continue;
+      }
+
+      const located = locateBlock(files.get(source) ?? "", block);
+      if ("error" in located) {
+        skip(block.line, located.error, block.filePath);
+        continue;
+      }
+      placed.push({
+        proposer,
+        block,
+        file: source,
+        start: located.index,
+        end: located.index + located.search.length,
+      });
+    }
+  });
+
+  return { placed, unplaced };
+}
+
+/**
+ * Group placed blocks into regions of overlapping text, file by file
+ */
+function groupRegions(placed: PlacedBlock[]): EditRegion[] {
+  const sorted = [...placed].sort((a, b) =>
+    a.file === b.file ? a.start - b.start : a.file < b.file ? -1 : 1,
+  );
+  const regions: EditRegion[] = [];
+
+  for (const item of sorted) {
+    let region = regions[regions.length - 1];
+    if (!region || region.file !== item.file || item.start >= region.end) {
+      region = {
+        file: item.file,
+        start: item.start,
+        end: item.end,
+        proposals: [],
+      };
+      regions.push(region);
+    }
+    region.end = Math.max(region.end, item.end);
+
+    let proposal = region.proposals.find((p) => p.proposer === item.proposer);
+    if (!proposal) {
+      proposal = { proposer: item.proposer, blocks: [] };
+      region.proposals.push(proposal);
+    }
+    proposal.blocks.push(item.block);
+  }
+
+  // Keep each review's blocks in the order it wrote them
+  for (const region of regions) {
+    region.proposals.sort((a, b) => a.proposer - b.proposer);
+    region.proposals.forEach((p) => p.blocks.sort((a, b) => a.line - b.line));
+  }
+  return regions;
+}
+
+/**
+ * Read the judge's reply to a merge prompt: a "### CONFLICT n" section per
+ * conflict holding a chosen proposal, replacement blocks or DROP
+ * @returns Resolutions keyed by 0-based conflict number
+ */
+function parseConflictReply(
+  reply: string,
+): Map<number, { choose: string } | { blocks: SRBlock[] } | "drop"> {
+  const resolutions = new Map<
+    number,
+    { choose: string } | { blocks: SRBlock[] } | "drop"
+  >();
+  const sections = reply.split(/^#{1,6}\s*CONFLICT\s+(\d+)\s*$/im);
+
+  // split() with a capture group alternates [preamble, number, body, number, body...]
+  for (let i = 1; i < sections.length; i += 2) {
+    const idx = parseInt(sections[i], 10) - 1;
+    const body = sections[i + 1] ?? "";
+    const choice = body.match(/\[\[CHOOSE:\s*([A-Za-z0-9]+)\s*\]\]/i);
+    const parsed = parseSearchReplace(body);
+    if (choice) {
+      resolutions.set(idx, { choose: choice[1].toUpperCase() });
+    } else if (parsed.blocks.length > 0) {
+      resolutions.set(idx, { blocks: parsed.blocks });
+    } else if (/^\s*DROP\s*$/im.test(body)) {
+      resolutions.set(idx, "drop");
+    }
+  }
+  return resolutions;
+}
+
+/**
+ * Describe where a merged block came from, for the line above it
+ */
+function describeSource(source: MergedBlockSource): string {
+  const proposers = source.proposedBy
+    .map((p) => `${p.modelId} (${p.modelName})`)
+    .join(", ");
+  if (!source.resolvedBy) {
+    return `Proposed by ${proposers}`;
+  }
+  return proposers
+    ? `Proposed by ${proposers}; chosen by the judge (${source.resolvedBy}) to settle a conflict`
+    : `Written by the judge (${source.resolvedBy}) to settle a conflict`;
+}
+
+/**
+ * Merge the edits of several candidate reviews into one review
+ * @param proposals The candidate reviews, in the order ties fall back to
+ * @param userPrompt The review instruction, shown to the judge with the conflicts
+ * @param codeContext The packed files XML the reviews were written against
+ * @param resolveConflicts Sends a merge prompt to the judge and returns its reply,
+ *   or undefined when the judge cannot be asked (e.g. to stay within a cost cap)
+ * @param judgeName Judge model reported as settling the conflicts
+ * @returns The merged review, its provenance and the blocks left out, or
+ *   undefined if no review had a block that could be placed
+ */
+export async function mergeReviews(
+  proposals: ReviewProposal[],
+  userPrompt: string,
+  codeContext: string,
+  resolveConflicts: (prompt: string) => Promise<string | undefined>,
+  judgeName: string,
+): Promise<
+  | {
+      review: string;
+      merge: ReviewMerge;
+      unplaced: (ReviewBlockFailure & { modelId: string })[];
+    }
+  | undefined
+> {
+  const files = unpackFiles(codeContext);
+  const { placed, unplaced } = placeBlocks(proposals, files);
+  if (placed.length === 0) {
+    return undefined;
+  }
+
+  const regionLines = (region: EditRegion): [number, number] | undefined => {
+    const content = files.get(region.file);
+    return content === undefined || region.end === Infinity
+      ? undefined
+      : [lineAt(content, region.start), lineAt(content, region.end - 1)];
+  };
+  const proposedBy = (proposers: number[]) =>
+    proposers.map((proposer) => ({
+      modelId: proposals[proposer].modelId,
+      modelName: proposals[proposer].modelName,
+    }));
+
+  const edits: MergedEdit[] = [];
+  const keep = (
+    region: EditRegion,
+    blocks: SRBlock[],
+    source: Omit<MergedBlockSource, "filePath" | "lines">,
+  ) =>
+    blocks.forEach((block) =>
+      edits.push({
+        file: region.file,
+        start: region.start,
+        block,
+        source: {
+          filePath: block.filePath ?? region.file,
+          lines: regionLines(region),
+          ...source,
+        },
+      }),
+    );
+
+  // Keep the regions the reviews agree on; the rest are conflicts
+  const conflicts: EditRegion[] = [];
+  for (const region of groupRegions(placed)) {
+    const key = editKey(region.proposals[0].blocks);
+    if (region.proposals.every((p) => editKey(p.blocks) === key)) {
+      keep(region, region.proposals[0].blocks, {
+        proposedBy: proposedBy(region.proposals.map((p) => p.proposer)),
+      });
+    } else {
+      conflicts.push(region);
+    }
+  }
+
+  let resolutions = new Map<
+    number,
+    { choose: string } | { blocks: SRBlock[] } | "drop"
+  >();
+  if (conflicts.length > 0) {
+    const reply = await resolveConflicts(
+      reviewMergePrompt(
+        userPrompt,
+        conflicts.map((region) => {
+          const lines = regionLines(region);
+          const content = files.get(region.file) ?? "";
+          return {
+            filePath: region.proposals[0].blocks[0].filePath ?? region.file,
+            lines,
+            code: lines
+              ? content
+                  .split(/\r?\n/)
+                  .slice(
+                    Math.max(0, lines[0] - 1 - CONTEXT_LINES),
+                    lines[1] + CONTEXT_LINES,
+                  )
+                  .join("\n")
+              : "",
+            proposals: region.proposals.map((p) => ({
+              modelId: proposals[p.proposer].modelId,
+              blocks: p.blocks
+                .map((block) => formatSearchReplaceBlock(block))
+                .join("\n\n"),
+            })),
+          };
+        }),
+      ),
+    );
+    if (reply !== undefined) {
+      resolutions = parseConflictReply(reply);
+    }
+  }
+
+  let resolved = 0;
+  conflicts.forEach((region, idx) => {
+    const resolution = resolutions.get(idx);
+    const chosen =
+      resolution && resolution !== "drop" && "choose" in resolution
+        ? region.proposals.find(
+            (p) => proposals[p.proposer].modelId === resolution.choose,
+          )
+        : undefined;
+
+    if (resolution === "drop") {
+      resolved++;
+    } else if (resolution && "blocks" in resolution) {
+      resolved++;
+      const filePath = region.proposals[0].blocks[0].filePath;
+      keep(
+        region,
+        resolution.blocks.map((block) => ({
+          ...block,
+          filePath: block.filePath ?? filePath,
+        })),
+        { proposedBy: [], resolvedBy: judgeName },
+      );
+    } else if (chosen) {
+      // Credit every review that proposed the same edits as the chosen one
+      resolved++;
+      const key = editKey(chosen.blocks);
+      keep(region, chosen.blocks, {
+        proposedBy: proposedBy(
+          region.proposals
+            .filter((p) => editKey(p.blocks) === key)
+            .map((p) => p.proposer),
+        ),
+        resolvedBy: judgeName,
+      });
+    } else {
+      // Unsettled conflicts keep the first review's edits
+      keep(region, region.proposals[0].blocks, {
+        proposedBy: proposedBy([region.proposals[0].proposer]),
+      });
+    }
+  });
+
+  // Files in the order the reviews first mention them, then by position
+  const fileOrder = Array.from(new Set(placed.map((item) => item.file)));
+  edits.sort((a, b) =>
+    a.file === b.file
+      ? a.start - b.start
+      : fileOrder.indexOf(a.file) - fileOrder.indexOf(b.file),
+  );
+
+  const review = [
+    `Merged edits from ${proposals.length} reviews (${conflicts.length} conflicting region${conflicts.length === 1 ? "" : "s"}).`,
+    ...edits.map(
+      (edit) =>
+        `${describeSource(edit.source)}\n${formatSearchReplaceBlock({
+          ...edit.block,
+          filePath: edit.source.filePath,
+        })}`,
+    ),
+  ].join("\n\n");
+
+  return {
+    review,
+    merge: {
+      reviews: proposals.length,
+      blocks: edits.map((edit) => edit.source),
+      conflicts: conflicts.length,
+      resolved,
+      unplaced: unplaced.length,
+    },
+    unplaced,
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Validation and repair of review SEARCH/REPLACE blocks
+ *
+ * Each block in a review is checked against the packed files the model was
+ * shown: the file must be one of them (unless the block creates it), and the
+ * SEARCH text must occur exactly once, without the line numbers the packer
+ * adds, once the file's earlier blocks are applied. Failing blocks go back to
+ * a model for a bounded number of repair attempts.
+ */
+
+import * as path from "path";
+import { getDefaults } from "../modelConfig";
+import { unpackFiles } from "../pack";
+import { reviewRepairPrompt } from "../prompts/debatePrompts";
+import { ReviewBlockFailure, ReviewValidation } from "../types/public";
+import { applyBlock } from "./applyEdits";
+import {
+  parseSearchReplace,
+  formatSearchReplaceBlock,
+  SRBlock,
+} from "./searchReplaceParser";
+
+// Repair requests per review unless defaults.reviewRepairAttempts says otherwise
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+// One line as addLineNumbers writes it: the number, two spaces, the code
+const NUMBERED_LINE = /^\s*(\d+)(?: {2}|\s*$)/;
+
+const FENCE_LINE = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * A failing block, or a malformed one that could not be parsed into a block
+ */
+export type BlockFailure = ReviewBlockFailure & { block?: SRBlock };
+
+/**
+ * Get the number of repair requests from `defaults.reviewRepairAttempts`
+ */
+export function getRepairAttempts(): number {
+  return getDefaults()?.reviewRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+}
+
+/**
+ * Check whether text was copied with the code context's line numbers: every
+ * line starts with one and they count up by one
+ */
+function hasLineNumbers(text: string): boolean {
+  const numbers = text
+    .split("\n")
+    .map((line) => line.match(NUMBERED_LINE)?.[1]);
+  return (
+    numbers.length > 0 &&
+    numbers.every(
+      (n, i) =>
+        n !== undefined &&
+        (i === 0 || Number(n) === Number(numbers[i - 1]) + 1),
+    )
+  );
+}
+
+/**
+ * Find the packed file a block's path refers to: an exact match, or the only
+ * source that ends with the (relative) path
+ */
+export function findPackedFile(
+  filePath: string,
+  files: Map<string, string>,
+): string | undefined {
+  const normalized = path.normalize(filePath);
+  if (files.has(filePath)) return filePath;
+  if (files.has(normalized)) return normalized;
+
+  const suffix = path.sep + normalized.replace(/^(\.[\\/])+/, "");
+  const matches = Array.from(files.keys()).filter((source) =>
+    path.normalize(source).endsWith(suffix),
+  );
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Check every block in a review against the packed files
+ * @param review The review text
+ * @param files File contents keyed by source path, as returned by unpackFiles
+ * @returns The parsed blocks, and each failing or malformed block in review order
+ */
+export function validateReview(
+  review: string,
+  files: Map<string, string>,
+): { blocks: SRBlock[]; failures: BlockFailure[] } {
+  const { blocks, errors } = parseSearchReplace(review);
+  const failures: BlockFailure[] = errors.map((error) => ({
+    line: error.line,
+    error: error.message,
+  }));
+  const edited = new Map<string, string>();
+
+  for (const block of blocks) {
+    const fail = (error: string) =>
+      failures.push({
+        line: block.line,
+        filePath: block.filePath,
+        error,
+        block,
+      });
+
+    if (!block.filePath) {
+      fail("No file path above the block");
+      continue;
+    }
+
+    const source = findPackedFile(block.filePath, files);
+    if (source === undefined && block.search.trim()) {
+      fail(`${block.filePath} is not one of the files provided as context`);
+      continue;
+    }
+
+    if (block.replace.includes("\n") && hasLineNumbers(block.replace)) {
+      fail(
+        "REPLACE lines start with the line numbers shown in the code context; write the code without them",
+      );
+      continue;
+    }
+
+    // New files start empty; edits build on the file's earlier blocks
+    const key = source ?? path.normalize(block.filePath);
+    const applied = applyBlock(edited.get(key) ?? files.get(key) ?? "", block);
+    if ("error" in applied) {
+      fail(
+        hasLineNumbers(block.search)
+          ? "SEARCH lines start with the line numbers shown in the code context; copy the code without them"
+          : applied.error,
+      );
+      continue;
+    }
+    edited.set(key, applied.content);
+  }
+
+  return { blocks, failures: failures.sort((a, b) => a.line - b.line) };
+}
+
+/**
+ * Read a repair reply: a "### BLOCK n" section per block holding either a
+ * corrected block or DROP
+ * @returns Fixes keyed by 0-based block number
+ */
+function parseRepairReply(reply: string): Map<number, SRBlock | "drop"> {
+  const fixes = new Map<number, SRBlock | "drop">();
+  const sections = reply.split(/^#{1,6}\s*BLOCK\s+(\d+)\s*$/im);
+
+  // split() with a capture group alternates [preamble, number, body, number, body...]
+  for (let i = 1; i < sections.length; i += 2) {
+    const idx = parseInt(sections[i], 10) - 1;
+    const body = sections[i + 1] ?? "";
+    const parsed = parseSearchReplace(body);
+    if (parsed.blocks.length > 0) {
+      fixes.set(idx, parsed.blocks[0]);
+    } else if (/^\s*DROP\s*$/im.test(body)) {
+      fixes.set(idx, "drop");
+    }
+  }
+  return fixes;
+}
+
+/**
+ * Splice repaired blocks into the review in place of the failing ones
+ * @returns The new review and the number of blocks dropped
+ */
+function applyRepairs(
+  review: string,
+  failing: SRBlock[],
+  fixes: Map<number, SRBlock | "drop">,
+): { review: string; dropped: number } {
+  const lines = review.split(/\r?\n/);
+  let dropped = 0;
+
+  // Work from the bottom up so earlier line numbers stay valid
+  const order = failing
+    .map((block, idx) => ({ block, idx }))
+    .sort((a, b) => b.block.line - a.block.line);
+
+  for (const { block, idx } of order) {
+    const fix = fixes.get(idx);
+    if (!fix) {
+      continue;
+    }
+
+    let start = block.line - 1;
+    let end = block.endLine - 1;
+
+    if (fix === "drop") {
+      // Take the block's code fence and path line with it
+      if (
+        start > 0 &&
+        FENCE_LINE.test(lines[start - 1]) &&
+        end + 1 < lines.length &&
+        FENCE_LINE.test(lines[end + 1])
+      ) {
+        start--;
+        end++;
+      }
+      if (
+        start > 0 &&
+        block.filePath &&
+        lines[start - 1].includes(block.filePath)
+      ) {
+        start--;
+      }
+      lines.splice(start, end - start + 1);
+      dropped++;
+      continue;
+    }
+
+    // Keep the path line above the block unless the repair moved it to another file
+    const filePath = fix.filePath ?? block.filePath;
+    lines.splice(
+      start,
+      end - start + 1,
+      ...formatSearchReplaceBlock({
+        ...fix,
+        filePath: filePath !== block.filePath ? filePath : undefined,
+      }).split("\n"),
+    );
+  }
+
+  return { review: lines.join("\n"), dropped };
+}
+
+/**
+ * Validate a review's blocks and send failing ones back for repair
+ * @param review The review text
+ * @param codeContext The packed files XML the review was written against
+ * @param sendRepair Sends a repair prompt to a model and returns its reply,
+ *   or undefined to stop repairing (e.g. to stay within a cost cap)
+ * @param maxAttempts Repair requests allowed; defaults to defaults.reviewRepairAttempts
+ * @returns The review with any repairs spliced in, and the validation report
+ */
+export async function repairReview(
+  review: string,
+  codeContext: string,
+  sendRepair: (prompt: string) => Promise<string | undefined>,
+  maxAttempts: number = getRepairAttempts(),
+): Promise<{ review: string; validation: ReviewValidation }> {
+  const files = unpackFiles(codeContext);
+  let current = review;
+  let check = validateReview(current, files);
+  const initialFailures = check.failures.filter((f) => f.block).length;
+  let attempts = 0;
+  let dropped = 0;
+
+  while (attempts < maxAttempts) {
+    // Malformed blocks are reported but cannot be located for repair
+    const failing = check.failures.filter(
+      (failure): failure is BlockFailure & { block: SRBlock } =>
+        failure.block !== undefined,
+    );
+    if (failing.length === 0) {
+      break;
+    }
+
+    const reply = await sendRepair(
+      reviewRepairPrompt(
+        codeContext,
+        failing.map((failure) => ({
+          block: formatSearchReplaceBlock(failure.block),
+          error: failure.error,
+        })),
+      ),
+    );
+    if (reply === undefined) {
+      break;
+    }
+    attempts++;
+
+    const repaired = applyRepairs(
+      current,
+      failing.map((failure) => failure.block),
+      parseRepairReply(reply),
+    );
+    dropped += repaired.dropped;
+    current = repaired.review;
+    check = validateReview(current, files);
+  }
+
+  const remaining = check.failures.filter((f) => f.block).length;
+  return {
+    review: current,
+    validation: {
+      blocks: check.blocks.length,
+      repairAttempts: attempts,
+      repaired: Math.max(0, initialFailures - remaining - dropped),
+      dropped,
+      failures: check.failures.map(({ block, ...failure }) => failure),
+    },
+  };
+}
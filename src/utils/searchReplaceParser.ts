@@ -1,63 +1,220 @@
 /**
- * Parser for SEARCH/REPLACE/END blocks format
- * 
- * This utility parses the standardized SEARCH/REPLACE/END format used by the review tool,
- * providing validation and extraction of code blocks.
+ * Parser for SEARCH/REPLACE blocks
+ *
+ * This utility parses the git-conflict style format that sage-review asks for,
+ * with the path of the file being edited on the line above each block:
+ *
+ *   /path/to/file.ts
+ *   <<<<<<< SEARCH
+ *   exact lines to replace
+ *   =======
+ *   new lines
+ *   >>>>>>> REPLACE
+ *
+ * Blocks may sit inside Markdown code fences, and a line of rationale may sit
+ * between the path and its block. When the markers are indented (e.g. inside
+ * a list item), that indentation is removed from the block's lines. An empty
+ * SEARCH section means the REPLACE section is the content of a new file.
  */
 
 /**
  * Represents a single search/replace block
  */
-export interface SRBlock { 
-  search: string; 
+export interface SRBlock {
+  filePath?: string; // Path named above the block, or the previous block's
+  search: string; // Empty when the block creates a file
   replace: string;
+  line: number; // 1-based line of the <<<<<<< SEARCH marker
+  endLine: number; // 1-based line of the >>>>>>> REPLACE marker
 }
 
 /**
- * Parse text containing SEARCH/REPLACE/END blocks
- * @param text The text to parse
- * @returns Object containing validation result and extracted blocks
+ * A malformed block, located by the line where the problem was found
+ */
+export interface SRParseError {
+  line: number; // 1-based
+  message: string;
+}
+
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const FENCE_LINE = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Read a file path from the line a model wrote above a block, tolerating
+ * Markdown emphasis and "File:" style labels
+ */
+function toFilePath(line: string): string | undefined {
+  const candidate = line
+    .trim()
+    .replace(/^(?:file(?:name)?|path)\s*:\s*/i, "")
+    .replace(/^[*_`#>\s]+|[*_`:\s]+$/g, "");
+  if (!candidate) {
+    return undefined;
+  }
+  // Prose is not a path; absolute paths may still contain spaces
+  if (/\s/.test(candidate) && !/^(\/|[A-Za-z]:[\\/])/.test(candidate)) {
+    return undefined;
+  }
+  // Require a directory separator or an extension, so "Cleanup." is not a path
+  if (!/[\\/]/.test(candidate) && !/\.[A-Za-z0-9]+$/.test(candidate)) {
+    return undefined;
+  }
+  return candidate;
+}
+
+/**
+ * Remove the SEARCH marker's indentation from a section's lines, provided
+ * every non-blank line carries it
+ */
+function stripIndent(lines: string[], indent: string): string[] {
+  if (
+    !indent ||
+    !lines.every((line) => !line.trim() || line.startsWith(indent))
+  ) {
+    return lines;
+  }
+  return lines.map((line) => line.slice(indent.length));
+}
+
+/**
+ * Drop a code fence wrapped around a whole SEARCH or REPLACE section
+ */
+function stripFence(lines: string[]): string[] {
+  if (
+    lines.length >= 2 &&
+    FENCE_LINE.test(lines[0]) &&
+    FENCE_LINE.test(lines[lines.length - 1]) &&
+    lines[lines.length - 1].trim().replace(/[`~]/g, "") === ""
+  ) {
+    return lines.slice(1, -1);
+  }
+  return lines;
+}
+
+/**
+ * Parse text containing SEARCH/REPLACE blocks
+ * @param text The text to parse, usually a model's review
+ * @returns The blocks in order, an error for each malformed block, and
+ *   whether at least one block was found with no errors
  */
 export function parseSearchReplace(text: string): {
   valid: boolean;
   blocks: SRBlock[];
-  error?: string;
+  errors: SRParseError[];
 } {
-  // Match SEARCH...REPLACE...END blocks
-  const regex = /SEARCH\s*([\s\S]+?)\s*REPLACE\s*([\s\S]+?)\s*END/g;
-  const matches = Array.from(text.matchAll(regex));
-  
-  // We still collect blocks, but we're more permissive about format
-  if (!matches.length) {
-    return { 
-      valid: false, 
-      blocks: [], 
-      error: "No SEARCH/REPLACE/END blocks found."
-    };
-  }
-  
-  // Allow content outside the blocks
-  
-  // Extract the blocks
-  const blocks = matches.map(m => ({ 
-    search: m[1].trim(), 
-    replace: m[2].trim() 
-  }));
-  
-  // Validate block content
-  for (let i = 0; i < blocks.length; i++) {
-    const block = blocks[i];
-    if (!block.search) {
-      return {
-        valid: false,
-        blocks,
-        error: `Block #${i+1} has an empty SEARCH section. Each SEARCH section must contain code to be replaced.`
-      };
+  const lines = text.split(/\r?\n/);
+  const blocks: SRBlock[] = [];
+  const errors: SRParseError[] = [];
+  let namedPath: string | undefined; // Last path named since the previous block
+  let previousPath: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+
+    if (REPLACE_MARKER.test(trimmed)) {
+      errors.push({
+        line: i + 1,
+        message: ">>>>>>> REPLACE without a matching <<<<<<< SEARCH",
+      });
+      continue;
+    }
+
+    if (!SEARCH_MARKER.test(trimmed)) {
+      if (trimmed && !FENCE_LINE.test(lines[i])) {
+        namedPath = toFilePath(lines[i]) ?? namedPath;
+      }
+      continue;
+    }
+
+    const start = i;
+    const indent = lines[i].match(/^\s*/)![0];
+    const filePath = namedPath ?? previousPath;
+    namedPath = undefined;
+    previousPath = filePath;
+
+    const search: string[] = [];
+    const replace: string[] = [];
+    let dividerLine: number | undefined;
+    let closed = false;
+    let nextBlockLine: number | undefined;
+
+    for (i++; i < lines.length; i++) {
+      const current = lines[i].trim();
+      if (dividerLine === undefined && DIVIDER_MARKER.test(current)) {
+        dividerLine = i;
+      } else if (dividerLine !== undefined && REPLACE_MARKER.test(current)) {
+        closed = true;
+        break;
+      } else if (SEARCH_MARKER.test(current)) {
+        // A new block started before this one was finished
+        nextBlockLine = i + 1;
+        i--;
+        break;
+      } else {
+        (dividerLine === undefined ? search : replace).push(lines[i]);
+      }
+    }
+
+    if (!closed) {
+      const cutOff =
+        nextBlockLine !== undefined
+          ? `the next <<<<<<< SEARCH on line ${nextBlockLine}`
+          : "the end of the text";
+      errors.push(
+        dividerLine === undefined
+          ? {
+              line: start + 1,
+              message: `<<<<<<< SEARCH is missing its ======= divider before ${cutOff}`,
+            }
+          : {
+              line: start + 1,
+              message: `<<<<<<< SEARCH is missing its >>>>>>> REPLACE marker (divider on line ${dividerLine + 1}) before ${cutOff}`,
+            },
+      );
+      continue;
     }
+
+    blocks.push({
+      filePath,
+      search: stripFence(stripIndent(search, indent)).join("\n"),
+      replace: stripFence(stripIndent(replace, indent)).join("\n"),
+      line: start + 1,
+      endLine: i + 1,
+    });
   }
-  
+
   return {
-    valid: true,
-    blocks
+    valid: blocks.length > 0 && errors.length === 0,
+    blocks,
+    errors,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Format parse errors for a report or a prompt
+ * @param errors The errors from parseSearchReplace
+ * @returns One "Line N: message" line per error
+ */
+export function formatParseErrors(errors: SRParseError[]): string {
+  return errors.map((error) => `Line ${error.line}: ${error.message}`).join("\n");
+}
+
+/**
+ * Write a block back out in the format parseSearchReplace reads
+ * @param block The block; its path goes on the line above when known
+ * @returns The block text, without a trailing newline
+ */
+export function formatSearchReplaceBlock(
+  block: Pick<SRBlock, "filePath" | "search" | "replace">,
+): string {
+  return [
+    ...(block.filePath ? [block.filePath] : []),
+    "<<<<<<< SEARCH",
+    ...(block.search ? [block.search] : []),
+    "=======",
+    ...(block.replace ? [block.replace] : []),
+    ">>>>>>> REPLACE",
+  ].join("\n");
+}
@@ -0,0 +1,53 @@
+/**
+ * Seeded shuffling utilities
+ *
+ * Debates shuffle model IDs and candidate order to avoid position bias. The
+ * shuffles are seeded so a debate can be replayed with the same orderings.
+ */
+
+/**
+ * Create a deterministic pseudo-random generator (mulberry32)
+ * @param seed 32-bit integer seed
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive an independent seed for a named use of the base seed (FNV-1a)
+ * @param seed The base seed
+ * @param key Identifies the use, e.g. "critique:1:A"
+ * @returns A new 32-bit seed
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Return a shuffled copy of the items (Fisher-Yates)
+ * @param items The items to shuffle
+ * @param seed The seed controlling the order
+ * @returns A new array with the same items in seeded random order
+ */
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  const random = createSeededRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,201 @@
+/**
+ * Unified diff generation
+ *
+ * Produces `diff -u` style output for previewing edits before they are
+ * written. Lines are compared with the Myers algorithm after trimming the
+ * common prefix and suffix, so localised edits to large files stay cheap.
+ */
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+  oldIdx: number; // Old lines before this one
+  newIdx: number; // New lines before this one
+}
+
+/**
+ * Split file content into lines that keep their newline, so a last line
+ * without one never compares equal to the same text with one
+ */
+function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Find the shortest edit script between two line arrays (Myers)
+ * @returns The lines in order, each kept, removed or added
+ */
+function diffMiddle(
+  oldMid: string[],
+  newMid: string[],
+): Array<{ type: DiffLine["type"]; text: string }> {
+  const n = oldMid.length;
+  const m = newMid.length;
+
+  // Pure additions and deletions (e.g. new files) need no search
+  if (n === 0 || m === 0) {
+    return [
+      ...oldMid.map((text) => ({ type: "-" as const, text })),
+      ...newMid.map((text) => ({ type: "+" as const, text })),
+    ];
+  }
+
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // Step d only reads diagonals -d..d of the step before, so keep just that window
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= n + m; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldMid[x] === newMid[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  // Walk the trace back from the end to recover the edits
+  const middle: Array<{ type: DiffLine["type"]; text: string }> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d]; // Diagonal k is at index d + k
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && previous[d + k - 1] < previous[d + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = d > 0 ? previous[d + prevK] : 0;
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      middle.push({ type: " ", text: oldMid[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        middle.push({ type: "+", text: newMid[--y] });
+      } else {
+        middle.push({ type: "-", text: oldMid[--x] });
+      }
+    }
+  }
+  return middle.reverse();
+}
+
+/**
+ * Diff two line arrays
+ * @returns The lines in order, each kept, removed or added
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common prefix and suffix never need the search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middle = diffMiddle(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix),
+  );
+
+  const result: DiffLine[] = [];
+  let oldIdx = 0;
+  let newIdx = 0;
+  const push = (type: DiffLine["type"], text: string) => {
+    result.push({ type, text, oldIdx, newIdx });
+    if (type !== "+") oldIdx++;
+    if (type !== "-") newIdx++;
+  };
+  a.slice(0, prefix).forEach((text) => push(" ", text));
+  middle.forEach((line) => push(line.type, line.text));
+  a.slice(a.length - suffix).forEach((text) => push(" ", text));
+  return result;
+}
+
+/**
+ * Format a hunk header range; an empty range points at the line before it
+ */
+function formatRange(start: number, count: number): string {
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ * @param filePath Path shown in the +++ header
+ * @param before The current content
+ * @param after The proposed content
+ * @param oldPath Path shown in the --- header, e.g. /dev/null for a new file
+ * @returns The diff, or an empty string if nothing changed
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string,
+  after: string,
+  oldPath: string = filePath,
+): string {
+  if (before === after && oldPath === filePath) {
+    return "";
+  }
+
+  const lines = diffLines(splitLines(before), splitLines(after));
+
+  const output = [`--- ${oldPath}`, `+++ ${filePath}`];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === " ") {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while changes are close enough to share context
+    const start = Math.max(0, i - CONTEXT_LINES);
+    let lastChange = i;
+    let j = i;
+    while (j < lines.length && j - lastChange <= 2 * CONTEXT_LINES + 1) {
+      if (lines[j].type !== " ") {
+        lastChange = j;
+      }
+      j++;
+    }
+    const end = Math.min(lines.length, lastChange + CONTEXT_LINES + 1);
+    const hunk = lines.slice(start, end);
+
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    output.push(
+      `@@ -${formatRange(hunk[0].oldIdx, oldCount)} +${formatRange(hunk[0].newIdx, newCount)} @@`,
+    );
+
+    for (const line of hunk) {
+      if (line.text.endsWith("\n")) {
+        output.push(`${line.type}${line.text.slice(0, -1)}`);
+      } else {
+        output.push(`${line.type}${line.text}`, "\\ No newline at end of file");
+      }
+    }
+    i = end;
+  }
+
+  return output.join("\n") + "\n";
+}
@@ -0,0 +1,60 @@
+// Shared reporting for the offline check scripts (test/test-*.js).
+// They load the compiled modules from dist/, so run `npm run build` first.
+
+const path = require('path');
+
+let failures = 0;
+
+/**
+ * Report one check, printing what was received when it fails
+ * @param label What the check shows
+ * @param condition Whether it passed
+ * @param detail Shown as JSON on failure
+ */
+function check(label, condition, detail) {
+  if (condition) {
+    console.log(`SUCCESS: ${label}`);
+  } else {
+    failures++;
+    console.log(`FAILURE: ${label}${detail !== undefined ? `\n  got: ${JSON.stringify(detail, null, 2)}` : ''}`);
+  }
+}
+
+/**
+ * Run a script's checks, count a thrown error as a failure, then print the
+ * summary and set the exit code
+ * @param name Used in the summary, e.g. "parser"
+ * @param main The checks; may be async
+ */
+function run(name, main) {
+  return Promise.resolve()
+    .then(main)
+    .catch((error) => {
+      failures++;
+      console.log(`FAILURE: ${error && error.stack ? error.stack : error}`);
+    })
+    .finally(() => {
+      console.log(failures === 0 ? `\nAll ${name} checks passed` : `\n${failures} ${name} check(s) failed`);
+      process.exitCode = failures === 0 ? 0 : 1;
+    });
+}
+
+/**
+ * Write a SEARCH/REPLACE block the way sage-review asks for it
+ * @param filePath Path on the line above the block
+ * @param search Lines of the SEARCH section
+ * @param replace Lines of the REPLACE section
+ */
+function block(filePath, search, replace) {
+  return [filePath, '<<<<<<< SEARCH', ...search, '=======', ...replace, '>>>>>>> REPLACE'].join('\n');
+}
+
+/**
+ * Require a compiled module from dist/
+ * @param modulePath Path under dist/, e.g. "utils/applyEdits"
+ */
+function load(modulePath) {
+  return require(path.join(__dirname, '..', 'dist', `${modulePath}.js`));
+}
+
+module.exports = { check, run, block, load };
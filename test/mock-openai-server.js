@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+// A stand-in OpenAI-compatible chat completions server for running debates offline.
+// Point an `openai-compatible` model in models.yaml at http://localhost:<port>/v1
+
+const http = require('http');
+
+const port = parseInt(process.env.PORT || process.argv[2] || '8000', 10);
+
+// Rough token estimate - good enough for exercising usage and cost accounting
+const estimateTokens = (text) => Math.ceil(text.length / 4);
+
+// Canned replies that satisfy each debate phase's parser
+function replyFor(prompt, model) {
+  if (prompt.includes('consensusScore')) {
+    return JSON.stringify({ consensusScore: 0.5, reasoning: 'Stand-in server never agrees.' });
+  }
+  if (prompt.includes('[[WINNER')) {
+    return '[[WINNER: 1]]\n\nConfidence Score: 0.7\n\nRationale: Stand-in server always picks the first candidate.';
+  }
+  return `Stand-in reply from ${model} to a ${prompt.length}-character prompt.`;
+}
+
+// Send the reply word by word as server-sent events, the way `stream: true` does
+function streamReply(res, request, content, promptTokens, completionTokens) {
+  const id = `chatcmpl-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (choices, usage) => `data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model: request.model, choices, ...(usage ? { usage } : {}) })}\n\n`;
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  const words = content.split(/(?<= )/);
+  let i = 0;
+  const timer = setInterval(() => {
+    if (i < words.length) {
+      res.write(chunk([{ index: 0, delta: { content: words[i++] }, finish_reason: null }]));
+      return;
+    }
+    clearInterval(timer);
+    res.write(chunk([{ index: 0, delta: {}, finish_reason: 'stop' }]));
+    if (request.stream_options?.include_usage) {
+      res.write(chunk([], { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }));
+    }
+    res.end('data: [DONE]\n\n');
+  }, 20);
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || !req.url.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: `No route for ${req.method} ${req.url}` } }));
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const request = JSON.parse(body);
+    const prompt = request.messages.map((m) => m.content).join('\n');
+    const content = replyFor(prompt, request.model);
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(content);
+
+    console.error(`[mock-openai-server] ${request.model}: ${promptTokens} prompt tokens${request.stream ? ' (streaming)' : ''}`);
+
+    if (request.stream) {
+      streamReply(res, request, content, promptTokens, completionTokens);
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: `chatcmpl-${Date.now()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    }));
+  });
+});
+
+server.listen(port, () => {
+  console.error(`Mock OpenAI-compatible server listening on http://localhost:${port}/v1`);
+});
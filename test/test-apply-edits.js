@@ -0,0 +1,133 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { check, run, block, load } = require('./checks');
+const { applyEdits } = load('utils/applyEdits');
+
+// Checks that sage-apply writes all of a review's edits or none of them.
+// Files are written to a temporary directory that is removed afterwards.
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'sage-apply-test-'));
+const fileA = path.join(root, 'a.js');
+const fileB = path.join(root, 'b.js');
+const created = path.join(root, 'lib', 'new.js');
+const originalA = 'const a = 1;\nmodule.exports = a;\n';
+const originalB = 'const b = 2;\nmodule.exports = b;\n';
+
+function reset() {
+  fs.writeFileSync(fileA, originalA);
+  fs.writeFileSync(fileB, originalB);
+  fs.rmSync(path.join(root, 'lib'), { recursive: true, force: true });
+}
+
+function untouched() {
+  return (
+    fs.readFileSync(fileA, 'utf8') === originalA &&
+    fs.readFileSync(fileB, 'utf8') === originalB &&
+    !fs.existsSync(path.dirname(created)) &&
+    fs.readdirSync(root).every((name) => !name.endsWith('.tmp'))
+  );
+}
+
+const goodEdits = [
+  block(fileA, ['const a = 1;'], ['const a = 10;']),
+  block(fileB, ['const b = 2;'], ['const b = 20;']),
+  block(created, [], ['module.exports = {};']),
+];
+
+function checkAll() {
+  // A block that does not match stops every other block from being written
+  reset();
+  let result = applyEdits([...goodEdits, block(fileB, ['const missing = 0;'], ['const found = 0;'])].join('\n\n'), {
+    rootDir: root,
+  });
+  check('failed block writes nothing', !result.written && untouched(), result);
+  check(
+    'other blocks are reported as skipped',
+    result.blocks.map((b) => b.status).join(',') === 'skipped,skipped,skipped,failed',
+    result.blocks,
+  );
+
+  // A malformed block counts as a failure too
+  reset();
+  result = applyEdits([...goodEdits, `${fileA}\n<<<<<<< SEARCH\nconst a = 1;`].join('\n\n'), { rootDir: root });
+  check('malformed block writes nothing', !result.written && result.errors.length === 1 && untouched(), result);
+
+  // A path outside rootDir is a failed block
+  reset();
+  result = applyEdits(
+    [block('a.js', ['const a = 1;'], ['const a = 10;']), block('../escape.js', [], ['x'])].join('\n\n'),
+    {
+      rootDir: root,
+    },
+  );
+  check('path outside rootDir writes nothing', !result.written && untouched(), result);
+  check('path outside rootDir is reported', /outside rootDir/.test(result.blocks[1].error || ''), result.blocks[1]);
+  check('nothing is written outside rootDir', !fs.existsSync(path.join(root, '..', 'escape.js')));
+
+  // So is an absolute path outside rootDir
+  reset();
+  const outside = path.join(os.tmpdir(), 'sage-apply-outside.js');
+  result = applyEdits([...goodEdits, block(outside, [], ['x'])].join('\n\n'), { rootDir: root });
+  check(
+    'absolute path outside rootDir writes nothing',
+    !result.written && !fs.existsSync(outside) && untouched(),
+    result,
+  );
+
+  // A dry run reports the diff without writing
+  reset();
+  result = applyEdits(goodEdits.join('\n\n'), { rootDir: root, dryRun: true });
+  check('dry run writes nothing', !result.written && untouched(), result);
+  check(
+    'dry run diff covers every file',
+    result.files.length === 3 && /\+const a = 10;/.test(result.diff) && /--- \/dev\/null/.test(result.diff),
+    result,
+  );
+
+  // A rename that fails part way puts back the files already renamed
+  reset();
+  const renameSync = fs.renameSync;
+  let renames = 0;
+  fs.renameSync = (...args) => {
+    if (++renames === 2) {
+      throw new Error('simulated rename failure');
+    }
+    return renameSync(...args);
+  };
+  let thrown;
+  try {
+    applyEdits(goodEdits.join('\n\n'), { rootDir: root });
+  } catch (error) {
+    thrown = error;
+  } finally {
+    fs.renameSync = renameSync;
+  }
+  check('failed rename is thrown', thrown && thrown.message === 'simulated rename failure', thrown && thrown.message);
+  check('failed rename restores the files and removes the new directory', untouched(), {
+    a: fs.readFileSync(fileA, 'utf8'),
+    b: fs.readFileSync(fileB, 'utf8'),
+    createdDir: fs.existsSync(path.dirname(created)),
+    entries: fs.readdirSync(root),
+  });
+
+  // With every block matching, every file is written
+  reset();
+  result = applyEdits(goodEdits.join('\n\n'), { rootDir: root });
+  check(
+    'clean edits are all written',
+    result.written &&
+      fs.readFileSync(fileA, 'utf8') === 'const a = 10;\nmodule.exports = a;\n' &&
+      fs.readFileSync(fileB, 'utf8') === 'const b = 20;\nmodule.exports = b;\n' &&
+      fs.readFileSync(created, 'utf8') === 'module.exports = {};\n',
+    result,
+  );
+}
+
+run('apply', () => {
+  try {
+    checkAll();
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,61 @@
+const { check, run, load } = require('./checks');
+const { estimateDebate } = load('orchestrator/debateOrchestrator');
+const { getRepairAttempts } = load('utils/reviewValidator');
+
+// Checks the calls sage-estimate projects for each debate phase, including
+// review repairs and merge mode. No model is called; the keys only make the
+// configured models count as available.
+
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'unused';
+process.env.GEMINI_API_KEY = process.env.GEMINI_API_KEY || 'unused';
+
+const calls = (estimate, phase) => (estimate.perPhase[phase] ? estimate.perPhase[phase].calls : 0);
+
+run('estimate', () => {
+  const attempts = getRepairAttempts();
+  check('repair attempts are configured', attempts > 0, attempts);
+
+  // One round: every model generates, then the judges vote
+  const opinion = estimateDebate({ toolType: 'opinion', contextTokens: 1000, rounds: 1 });
+  const models = calls(opinion, 'generate');
+  const judges = calls(opinion, 'judge');
+  check('every model generates', models >= 2, opinion.perPhase);
+  check('opinions are not repaired', calls(opinion, 'validate') === 0, opinion.perPhase);
+  check(
+    'the total covers every phase',
+    opinion.calls === Object.values(opinion.perPhase).reduce((sum, p) => sum + p.calls, 0),
+    opinion,
+  );
+
+  // Later rounds add a consensus check, critiques and revisions
+  const rounds = estimateDebate({ toolType: 'opinion', contextTokens: 1000, rounds: 3 });
+  check(
+    'each later round is counted',
+    calls(rounds, 'consensus') === 2 &&
+      calls(rounds, 'critique') === 2 * models &&
+      calls(rounds, 'revise') === 2 * models,
+    rounds.perPhase,
+  );
+  const swapped = estimateDebate({ toolType: 'opinion', contextTokens: 1000, rounds: 1, swapJudge: true });
+  check('swapJudge doubles the judge calls', calls(swapped, 'judge') === 2 * judges, swapped.perPhase);
+
+  // Reviews count every repair request allowed
+  const review = estimateDebate({ toolType: 'review', contextTokens: 1000, rounds: 1 });
+  check('reviews count the repairs', calls(review, 'validate') === attempts, review.perPhase);
+  check('reviews without merge mode have no merge call', calls(review, 'merge') === 0, review.perPhase);
+
+  // Merge mode repairs every review first, then merges, and may still fall back to the judges
+  const merged = estimateDebate({ toolType: 'review', contextTokens: 1000, rounds: 1, mergeEdits: true });
+  check('merge mode counts the merge call', calls(merged, 'merge') === 1, merged.perPhase);
+  check(
+    "merge mode counts each review's repairs and the final repairs",
+    calls(merged, 'validate') === attempts * (calls(merged, 'generate') + 1),
+    merged.perPhase,
+  );
+  check('merge mode still counts the judges', calls(merged, 'judge') === calls(review, 'judge'), merged.perPhase);
+  check('merge mode costs more', merged.costUsd > review.costUsd, { merged: merged.costUsd, review: review.costUsd });
+
+  // mergeEdits only applies to reviews
+  const mergedOpinion = estimateDebate({ toolType: 'opinion', contextTokens: 1000, rounds: 1, mergeEdits: true });
+  check('mergeEdits is ignored for opinions', mergedOpinion.calls === opinion.calls, mergedOpinion.perPhase);
+});
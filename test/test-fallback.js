@@ -0,0 +1,111 @@
+const { check, run, load } = require('./checks');
+const { sendWithFallback } = load('modelManager');
+const { registerProvider } = load('providers/registry');
+
+// Checks that a request moves down the tool's preferredModels only when the
+// model fails with a retryable error. Run `npm run build` first; the built-in
+// providers are replaced by scripted ones, so no API keys are needed.
+
+let sent = [];
+let failures = {}; // Model name -> error to throw
+
+// A scripted provider per model type in models.yaml
+for (const type of ['openai', 'gemini', 'anthropic']) {
+  registerProvider({
+    type,
+    displayName: `Scripted ${type}`,
+    capabilities: {
+      streaming: false,
+      temperature: true,
+      topP: false,
+      topK: false,
+      systemInstruction: false,
+      thinkingBudget: false,
+      safetySettings: false,
+    },
+    isConfigured: () => true,
+    countTokens: (text) => text.length,
+    send: async (prompt, options) => {
+      sent.push(options.model);
+      if (failures[options.model]) {
+        throw failures[options.model];
+      }
+      return { text: `Answer from ${options.model}`, usage: { prompt: 1, completion: 1, total: 2 } };
+    },
+  });
+}
+
+function statusError(status, message) {
+  return Object.assign(new Error(message), { status });
+}
+
+function send() {
+  sent = [];
+  return sendWithFallback(
+    'Is this good?',
+    { modelName: 'gpt-5-2025-08-07', modelType: 'openai', tokenCount: 3 },
+    'opinion',
+    async () => {},
+  );
+}
+
+async function rejection(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+run('fallback', async () => {
+  // A working model is used as selected
+  failures = {};
+  let result = await send();
+  check('a working model needs no fallback', result.modelName === 'gpt-5-2025-08-07' && result.fallbacks.length === 0, {
+    result,
+    sent,
+  });
+
+  // A retryable failure moves on to the next preferred model
+  failures = { 'gpt-5-2025-08-07': statusError(503, 'Service unavailable') };
+  result = await send();
+  check(
+    'a retryable failure falls back to the next model',
+    result.modelName === 'gemini-2.5-pro' && result.text === 'Answer from gemini-2.5-pro',
+    { result, sent },
+  );
+  check(
+    'the fallback is reported',
+    result.fallbacks.length === 1 &&
+      result.fallbacks[0].fromModel === 'gpt-5-2025-08-07' &&
+      result.fallbacks[0].toModel === 'gemini-2.5-pro' &&
+      result.fallbacks[0].reason === 'Service unavailable',
+    result.fallbacks,
+  );
+
+  // A request error the next model would repeat is thrown at once
+  failures = { 'gpt-5-2025-08-07': statusError(400, 'Invalid request') };
+  let error = await rejection(send());
+  check('a non-retryable failure is thrown', error && error.message === 'Invalid request', error && error.message);
+  check('a non-retryable failure tries no other model', sent.join() === 'gpt-5-2025-08-07', sent);
+
+  // So is a cancellation
+  failures = { 'gpt-5-2025-08-07': new Error('Request to gpt-5-2025-08-07 was cancelled') };
+  error = await rejection(send());
+  check('a cancellation tries no other model', error && sent.join() === 'gpt-5-2025-08-07', sent);
+
+  // Each preferred model is tried once, then the last error is thrown
+  failures = {
+    'gpt-5-2025-08-07': statusError(429, 'Rate limited'),
+    'gemini-2.5-pro': new Error('socket hang up'),
+    'gpt-4.1-2025-04-14': statusError(500, 'Server error'),
+  };
+  error = await rejection(send());
+  check(
+    'every preferred model is tried once',
+    sent.join() === 'gpt-5-2025-08-07,gemini-2.5-pro,gpt-4.1-2025-04-14',
+    sent,
+  );
+  check('the last error is thrown', error && error.message === 'Server error', error && error.message);
+});
@@ -0,0 +1,31 @@
+const { check, run, load } = require('./checks');
+const { aggregateJudgeVotes } = load('orchestrator/debateOrchestrator');
+
+// Checks how a judge panel's votes are combined into one winner.
+
+function vote(judgeModelName, winnerIdx, confidence) {
+  return { judgeModelName, winnerIdx, confidence, criteriaScores: {}, rationale: '' };
+}
+
+run('judge vote', () => {
+  // Two weak votes outnumber one confident vote
+  const split = [vote('j1', 0, 0.4), vote('j2', 0, 0.4), vote('j3', 1, 0.95)];
+  check('majority counts votes', aggregateJudgeVotes(split, 'majority') === 0);
+  check('confidence sums confidence', aggregateJudgeVotes(split, 'confidence') === 1);
+
+  // Tied votes go to the more confident side, and tied confidence to more votes
+  const tiedVotes = [vote('j1', 0, 0.6), vote('j2', 1, 0.9)];
+  check('majority breaks a tie on confidence', aggregateJudgeVotes(tiedVotes, 'majority') === 1);
+  const tiedConfidence = [vote('j1', 0, 0.4), vote('j2', 0, 0.4), vote('j3', 1, 0.8)];
+  check('confidence breaks a tie on votes', aggregateJudgeVotes(tiedConfidence, 'confidence') === 0);
+
+  // A full tie goes to the earliest vote
+  const fullTie = [vote('j1', 2, 0.7), vote('j2', 1, 0.7)];
+  check('a full tie goes to the earliest vote', aggregateJudgeVotes(fullTie, 'majority') === 2);
+  check('a full tie goes to the earliest vote by confidence too', aggregateJudgeVotes(fullTie, 'confidence') === 2);
+
+  // A vote without a confidence counts as the default, and a synthesis is a candidate of its own
+  const synthesis = [vote('j1', -1, undefined), vote('j2', -1, undefined), vote('j3', 0, 0.9)];
+  check('synthesis votes are counted together', aggregateJudgeVotes(synthesis, 'majority') === -1);
+  check('a single vote wins', aggregateJudgeVotes([vote('j1', 1, 0.2)], 'confidence') === 1);
+});
@@ -0,0 +1,83 @@
+const { check, run, load } = require('./checks');
+const { seededShuffle, deriveSeed } = load('utils/shuffle');
+const modelManager = load('modelManager');
+const { runDebate } = load('orchestrator/debateOrchestrator');
+load('strategies/opinionStrategy');
+
+// Checks that candidate orders are shuffled reproducibly and that swapJudge
+// catches a judge whose vote follows the position rather than the candidate.
+// Run `npm run build` first; no API keys are needed; every model is scripted.
+
+for (const key of ['OPENAI_API_KEY', 'GEMINI_API_KEY']) {
+  process.env[key] = process.env[key] || 'unused';
+}
+
+// Candidates name their model; the judge picks with the given function
+function scriptModels(pickEntry) {
+  modelManager.sendToModel = async (prompt, options) => {
+    const text = prompt.startsWith('You are the judge')
+      ? `[[WINNER: ${pickEntry(prompt.match(/^## OPINION \d+\n.*$/gm))}]]\nConfidence Score: 0.8\nRationale: scripted`
+      : `Opinion by ${options.modelName}`;
+    return { text, usage: { prompt: 10, completion: 10, total: 20 }, finishReason: 'stop', latencyMs: 1 };
+  };
+}
+
+function debate(seed) {
+  return runDebate(
+    {
+      toolType: 'opinion',
+      userPrompt: 'Which is better?',
+      debateConfig: { enabled: true, rounds: 1, seed, swapJudge: true, logLevel: 'debug' },
+    },
+    async () => {},
+  );
+}
+
+run('position bias', async () => {
+  // The same seed gives the same order; the items are only reordered
+  const items = [0, 1, 2, 3, 4, 5, 6, 7];
+  const shuffled = seededShuffle(items, 42);
+  check('a seed always gives the same order', shuffled.join() === seededShuffle(items, 42).join(), shuffled);
+  check('shuffling keeps every item', [...shuffled].sort().join() === items.join(), shuffled);
+  check('the input is not changed', items.join() === '0,1,2,3,4,5,6,7', items);
+  check(
+    'different seeds give different orders',
+    new Set([1, 2, 3, 4, 5].map((seed) => seededShuffle(items, seed).join())).size > 1,
+  );
+  check(
+    'derived seeds depend on the key',
+    deriveSeed(42, 'judge:1:A') === deriveSeed(42, 'judge:1:A') &&
+      deriveSeed(42, 'judge:1:A') !== deriveSeed(42, 'judge:1:B'),
+  );
+
+  // A judge that always picks the first entry flips when the order is reversed
+  scriptModels(() => 1);
+  let result = await debate(7);
+  let vote = result.meta.judgeVotes && result.meta.judgeVotes[0];
+  check('a position-following vote is flagged', vote && vote.flippedOnSwap === true, result.meta.judgeVotes);
+  check(
+    'a flip adds a POSITION_BIAS warning',
+    result.meta.warnings.some((w) => w.code === 'POSITION_BIAS'),
+    result.meta.warnings,
+  );
+
+  // A judge that picks the same candidate wherever it is shown does not flip
+  scriptModels((entries) => entries.findIndex((entry) => entry.includes('gemini')) + 1);
+  result = await debate(7);
+  vote = result.meta.judgeVotes && result.meta.judgeVotes[0];
+  check('a consistent vote is not flagged', vote && vote.flippedOnSwap === false, result.meta.judgeVotes);
+  check(
+    'the vote maps back to the chosen candidate',
+    result.meta.winner && /gemini/.test(result.meta.winner.modelName) && /gemini/.test(result.opinion),
+    { winner: result.meta.winner, opinion: result.opinion },
+  );
+
+  // Replaying a seed replays the orders every reader saw
+  const replay = await debate(7);
+  check('the seed is reported', result.meta.seed === 7 && replay.meta.seed === 7, result.meta.seed);
+  check(
+    'the same seed shows the candidates in the same orders',
+    JSON.stringify(replay.debateLog.presentationOrders) === JSON.stringify(result.debateLog.presentationOrders),
+    { first: result.debateLog.presentationOrders, replay: replay.debateLog.presentationOrders },
+  );
+});
@@ -0,0 +1,92 @@
+const { check, run, load } = require('./checks');
+const { createProgressReporter } = load('utils/progress');
+
+// Checks that streamed output becomes throttled progress notifications and
+// that flush sends the update the throttle held back. The clock is scripted.
+
+let now = 0;
+const dateNow = Date.now;
+Date.now = () => now;
+
+function reporter() {
+  const sent = [];
+  const progress = createProgressReporter('token-1', async (notification) => {
+    sent.push(notification);
+  });
+  return { sent, progress };
+}
+
+function update(text) {
+  return { text, bytes: Buffer.byteLength(text) };
+}
+
+run('progress', async () => {
+  try {
+    // The first update goes out; later ones within the interval are held back
+    let { sent, progress } = reporter();
+    now = 1000;
+    const onProgress = progress.stream('generate model-a');
+    onProgress(update('Hello'));
+    now = 1100;
+    onProgress(update('Hello wor'));
+    now = 1200;
+    onProgress(update('Hello world'));
+    check('the first update is sent', sent.length === 1 && sent[0].method === 'notifications/progress', sent);
+    check(
+      'the notification carries the token, bytes and label',
+      sent[0].params.progressToken === 'token-1' &&
+        sent[0].params.progress === 5 &&
+        sent[0].params.message === 'generate model-a (5 bytes): …Hello',
+      sent[0],
+    );
+
+    // Flushing sends the latest held update once
+    progress.flush();
+    check(
+      'flush sends the latest held update',
+      sent.length === 2 && sent[1].params.progress === 11 && /Hello world$/.test(sent[1].params.message),
+      sent,
+    );
+    progress.flush();
+    check('a second flush sends nothing', sent.length === 2, sent);
+
+    // Once the interval has passed, updates go out again
+    now = 1800;
+    onProgress(update('Hello world!'));
+    check('updates resume after the interval', sent.length === 3 && sent[2].params.progress === 12, sent);
+
+    // Parallel streams add up, and a retried stream does not count down
+    ({ sent, progress } = reporter());
+    now = 5000;
+    const first = progress.stream('generate model-a');
+    const second = progress.stream('generate model-b');
+    first(update('aaaa'));
+    now = 6000;
+    second(update('bb'));
+    check('progress totals every stream', sent[1].params.progress === 6, sent);
+    now = 7000;
+    first(update('a'));
+    check('a retried stream keeps its bytes', sent[2].params.progress === 6, sent);
+
+    // The preview is the end of the output on one line
+    ({ sent, progress } = reporter());
+    progress.stream('judge model-c')(update(`${'x'.repeat(300)}\n\n  last   line`));
+    const preview = sent[0].params.message.split('…')[1];
+    check(
+      'the preview is the end of the output on one line',
+      preview.length <= 200 && preview.endsWith('x last line'),
+      preview,
+    );
+
+    // A closed connection does not fail the request
+    progress = createProgressReporter('token-2', async () => {
+      throw new Error('Connection closed');
+    });
+    now = 9000;
+    progress.stream('generate model-a')(update('text'));
+    await new Promise((resolve) => setImmediate(resolve));
+    check('a failed notification is ignored', true);
+  } finally {
+    Date.now = dateNow;
+  }
+});
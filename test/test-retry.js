@@ -0,0 +1,124 @@
+const { check, run, load } = require('./checks');
+const { isRetryableError, getRetryAfterMs, computeBackoffMs, withRetry } = load('utils/retry');
+
+// Checks which provider errors are retried, how long each retry waits and
+// how the server's retry-after headers stretch the wait.
+
+function statusError(status, headers) {
+  return Object.assign(new Error(`Request failed with status ${status}`), { status, headers });
+}
+
+// Run with Math.random pinned, so the jitter is predictable
+function withRandom(value, fn) {
+  const random = Math.random;
+  Math.random = () => value;
+  try {
+    return fn();
+  } finally {
+    Math.random = random;
+  }
+}
+
+run('retry', async () => {
+  // Which errors are transient
+  check(
+    'rate limits, timeouts and server errors are retried',
+    [408, 429, 500, 503].every((status) => isRetryableError(statusError(status))),
+  );
+  check('other HTTP errors are not', ![400, 401, 404].some((status) => isRetryableError(statusError(status))));
+  check(
+    'network failures are retried',
+    ['socket hang up', 'connect ECONNREFUSED', 'Request timed out', 'Model is overloaded'].every((message) =>
+      isRetryableError(new Error(message)),
+    ),
+  );
+  check('cancellations are not', !isRetryableError(new Error('Request was cancelled')));
+  check(
+    'aborts are not',
+    !isRetryableError(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' })),
+  );
+
+  // Retry-After in its several forms
+  check('retry-after-ms is used as is', getRetryAfterMs(statusError(429, { 'retry-after-ms': '1500' })) === 1500);
+  check('retry-after seconds', getRetryAfterMs(statusError(429, { 'retry-after': '2' })) === 2000);
+  const date = getRetryAfterMs(statusError(429, { 'retry-after': new Date(Date.now() + 10000).toUTCString() }));
+  check('retry-after HTTP date', date > 8000 && date <= 10000, date);
+  check('headers with get() are read', getRetryAfterMs(statusError(429, new Headers({ 'Retry-After': '3' }))) === 3000);
+  check(
+    'the later rate limit reset wins',
+    getRetryAfterMs(
+      statusError(429, { 'x-ratelimit-reset-tokens': '1m20s', 'x-ratelimit-reset-requests': '250ms' }),
+    ) === 80000,
+  );
+  check('no header means no requested wait', getRetryAfterMs(statusError(429, {})) === undefined);
+
+  // Exponential backoff with full jitter, never below retry-after or above the cap
+  const policy = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+  check(
+    'the wait doubles with each retry',
+    withRandom(0.5, () => [1, 2, 3].map((attempt) => computeBackoffMs(attempt, policy)).join()) === '500,1000,2000',
+  );
+  check('the wait is capped', withRandom(0.999, () => computeBackoffMs(10, policy)) === 4995);
+  check('jitter can shorten the wait to nothing', withRandom(0, () => computeBackoffMs(2, policy)) === 0);
+  check('retry-after sets the shortest wait', withRandom(0, () => computeBackoffMs(1, policy, 3000)) === 3000);
+  check('retry-after is capped too', withRandom(0, () => computeBackoffMs(1, policy, 60000)) === 5000);
+
+  // withRetry retries transient failures up to maxRetries
+  const fast = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+  const notes = [];
+  let attempts = 0;
+  let result = await withRetry(
+    async () => {
+      if (++attempts < 3) {
+        throw statusError(503);
+      }
+      return 'ok';
+    },
+    { label: 'Scripted', policy: fast, notifyFn: async (note) => notes.push(note.data) },
+  );
+  check('transient failures are retried', result === 'ok' && attempts === 3, attempts);
+  check('each retry is announced', notes.length === 2 && /Retry 2\/2/.test(notes[1]), notes);
+
+  const failing = async (error) => {
+    attempts = 0;
+    try {
+      await withRetry(
+        async () => {
+          attempts++;
+          throw error;
+        },
+        { label: 'Scripted', policy: fast },
+      );
+    } catch (thrown) {
+      return thrown;
+    }
+  };
+  let thrown = await failing(statusError(429));
+  check('retries stop at maxRetries', attempts === 3 && thrown.status === 429, attempts);
+  thrown = await failing(statusError(400));
+  check('a non-retryable error is thrown at once', attempts === 1 && thrown.status === 400, attempts);
+
+  // A cancellation ends the wait before the next retry
+  const controller = new AbortController();
+  attempts = 0;
+  try {
+    await withRetry(
+      async () => {
+        attempts++;
+        setTimeout(() => controller.abort(), 10);
+        throw statusError(503);
+      },
+      {
+        label: 'Scripted',
+        policy: { maxRetries: 3, baseDelayMs: 60000, maxDelayMs: 60000 },
+        abortSignal: controller.signal,
+      },
+    );
+  } catch (error) {
+    thrown = error;
+  }
+  check('cancelling stops the retries', attempts === 1 && /cancelled/.test(thrown.message), {
+    attempts,
+    error: thrown.message,
+  });
+});
@@ -0,0 +1,219 @@
+const { check, run, block: fileBlock, load } = require('./checks');
+const { mergeReviews } = load('utils/reviewMerge');
+const modelManager = load('modelManager');
+const { addLineNumbers } = load('pack');
+const { runDebate } = load('orchestrator/debateOrchestrator');
+load('strategies/reviewStrategy');
+
+// Checks how merge mode groups the edits of several reviews: agreeing and
+// single-review edits are kept, overlapping different edits go to the judge.
+// Run `npm run build` first; no API keys are needed; every model is scripted.
+
+const source = [
+  'function add(a, b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b;',
+  '}',
+  '',
+  'function mul(a, b) {',
+  '  return a * b;',
+  '}',
+].join('\n');
+
+const codeContext = [
+  '<documents>',
+  '<document index="1">',
+  '<source>/src/math.js</source>',
+  '<document_content>',
+  source,
+  '</document_content>',
+  '</document>',
+  '</documents>',
+].join('\n');
+
+function block(search, replace) {
+  return fileBlock('/src/math.js', search, replace);
+}
+
+const addEdit = block(['  return a + b;'], ['  return Number(a) + Number(b);']);
+const subEditA = block(['  return a - b;'], ['  return Number(a) - Number(b);']);
+const subEditB = block(['function sub(a, b) {', '  return a - b;'], ['function subtract(a, b) {', '  return a - b;']);
+const mulEdit = block(['  return a * b;'], ['  return Number(a) * Number(b);']);
+const missing = block(['  return a / b;'], ['  return a / Number(b);']);
+
+// A and B agree on add, only B edits mul, and they overlap differently on sub
+const proposals = [
+  { modelId: 'A', modelName: 'model-a', text: [addEdit, subEditA, missing].join('\n\n') },
+  { modelId: 'B', modelName: 'model-b', text: [mulEdit, subEditB, addEdit].join('\n\n') },
+];
+
+run('merge', async () => {
+  // The judge settles the one conflict by choosing B
+  let prompts = [];
+  let result = await mergeReviews(
+    proposals,
+    'Make the helpers coerce their inputs',
+    codeContext,
+    async (prompt) => {
+      prompts.push(prompt);
+      return '## CONFLICT 1\n[[CHOOSE: B]]';
+    },
+    'judge-model',
+  );
+
+  const byLine = (line) => result.merge.blocks.find((b) => b.lines && b.lines[0] === line);
+  const names = (b) => (b ? b.proposedBy.map((p) => p.modelId).join(',') : undefined);
+
+  check('the judge is asked once', prompts.length === 1, prompts.length);
+  check(
+    'only the overlapping edits are a conflict',
+    result.merge.conflicts === 1 && /CONFLICT 1/.test(prompts[0]) && !/CONFLICT 2/.test(prompts[0]),
+    prompts[0],
+  );
+  check(
+    'the conflict shows both proposals',
+    prompts[0].includes('PROPOSAL A') && prompts[0].includes('PROPOSAL B') && prompts[0].includes('function subtract'),
+    prompts[0],
+  );
+  check(
+    'agreeing edits are kept once, credited to both reviews',
+    names(byLine(2)) === 'A,B' && !byLine(2).resolvedBy,
+    result.merge.blocks,
+  );
+  check('an edit only one review makes is kept', names(byLine(10)) === 'B', result.merge.blocks);
+  check(
+    'the chosen proposal settles the conflict',
+    names(byLine(5)) === 'B' && byLine(5).resolvedBy === 'judge-model' && result.merge.resolved === 1,
+    result.merge,
+  );
+  check(
+    'the rejected proposal is left out',
+    !result.review.includes('Number(a) - Number(b)') && result.review.includes('function subtract'),
+    result.review,
+  );
+  check(
+    'blocks are in file order',
+    result.merge.blocks.map((b) => b.lines[0]).join(',') === '2,5,10',
+    result.merge.blocks,
+  );
+  check(
+    'a block that is not in the file is reported',
+    result.unplaced.length === 1 && result.unplaced[0].modelId === 'A' && result.merge.unplaced === 1,
+    result.unplaced,
+  );
+
+  // Without a judge reply the first review's proposal is kept
+  result = await mergeReviews(
+    proposals,
+    'Make the helpers coerce their inputs',
+    codeContext,
+    async () => undefined,
+    'judge-model',
+  );
+  check(
+    'an unsettled conflict keeps the first proposal',
+    result.merge.resolved === 0 &&
+      result.review.includes('Number(a) - Number(b)') &&
+      !result.review.includes('function subtract'),
+    result.review,
+  );
+
+  // The judge may write its own edit or drop the region
+  result = await mergeReviews(
+    proposals,
+    'Make the helpers coerce their inputs',
+    codeContext,
+    async () => `## CONFLICT 1\n${block(['  return a - b;'], ['  return +a - +b;'])}`,
+    'judge-model',
+  );
+  check(
+    'a block written by the judge replaces both proposals',
+    result.review.includes('+a - +b') &&
+      !result.review.includes('function subtract') &&
+      byLine(5).proposedBy.length === 0,
+    result.review,
+  );
+
+  result = await mergeReviews(
+    proposals,
+    'Make the helpers coerce their inputs',
+    codeContext,
+    async () => '## CONFLICT 1\nDROP',
+    'judge-model',
+  );
+  check(
+    'a dropped conflict keeps neither proposal',
+    result.merge.resolved === 1 && result.merge.blocks.length === 2 && !byLine(5),
+    result.merge.blocks,
+  );
+
+  // Identical reviews never reach the judge
+  prompts = [];
+  result = await mergeReviews(
+    [proposals[0], { ...proposals[0], modelId: 'B', modelName: 'model-b' }],
+    'Make the helpers coerce their inputs',
+    codeContext,
+    async (prompt) => {
+      prompts.push(prompt);
+      return undefined;
+    },
+    'judge-model',
+  );
+  check(
+    'identical reviews have no conflicts',
+    prompts.length === 0 && result.merge.conflicts === 0 && result.merge.blocks.every((b) => names(b) === 'A,B'),
+    result.merge,
+  );
+
+  // Nothing to merge
+  result = await mergeReviews(
+    [{ modelId: 'A', modelName: 'model-a', text: 'Looks good to me.' }],
+    'Review',
+    codeContext,
+    async () => undefined,
+    'judge-model',
+  );
+  check('reviews without blocks cannot be merged', result === undefined, result);
+
+  // In a debate each model repairs its own blocks before they are merged
+  for (const key of ['OPENAI_API_KEY', 'GEMINI_API_KEY']) {
+    process.env[key] = process.env[key] || 'unused';
+  }
+  const numbered = fileBlock('/src/math.js', [' 2    return a + b;'], ['  return Number(a) + Number(b);']);
+  const sent = [];
+  modelManager.sendToModel = async (prompt, options) => {
+    const repair = prompt.includes('cannot be applied');
+    sent.push({ model: options.modelName, repair });
+    const text = repair ? `### BLOCK 1\n${addEdit}` : `Coerce the inputs.\n\n${numbered}`;
+    return { text, usage: { prompt: 10, completion: 10, total: 20 }, finishReason: 'stop', latencyMs: 1 };
+  };
+  const numberedContext = codeContext.replace(source, addLineNumbers(source));
+  const debate = await runDebate(
+    {
+      toolType: 'review',
+      userPrompt: 'Make the helpers coerce their inputs',
+      codeContext: numberedContext,
+      debateConfig: { enabled: true, rounds: 1, mergeEdits: true },
+    },
+    async () => {},
+  );
+  const repairs = sent.filter((call) => call.repair);
+  check(
+    'every review is repaired by its own model',
+    repairs.length === 2 && new Set(repairs.map((call) => call.model)).size === 2,
+    sent,
+  );
+  check(
+    'repaired blocks are merged rather than left out',
+    debate.meta.merge && debate.meta.merge.blocks.length === 1 && debate.meta.merge.unplaced === 0,
+    debate.meta.merge,
+  );
+  check(
+    'repairs before merging are counted',
+    debate.meta.validation.repairAttempts === 2 && debate.meta.validation.repaired === 2,
+    debate.meta.validation,
+  );
+});
@@ -0,0 +1,127 @@
+const { check, run, block, load } = require('./checks');
+const { repairReview } = load('utils/reviewValidator');
+
+// Checks that review blocks are validated against the packed files and that
+// failing blocks are repaired, dropped or reported within the attempt limit.
+// Run `npm run build` first; no API keys are needed; the repairs are scripted.
+
+// Packed the way sage-review packs files, with line numbers
+const codeContext = [
+  '<documents>',
+  '<document index="1">',
+  '<source>/src/greet.js</source>',
+  '<document_content>',
+  '1  function greet(name) {',
+  '2    return "Hello " + name;',
+  '3  }',
+  '4  module.exports = greet;',
+  '</document_content>',
+  '</document>',
+  '</documents>',
+].join('\n');
+
+const good = block('/src/greet.js', ['  return "Hello " + name;'], ['  return `Hello ${name}`;']);
+const stale = block('/src/greet.js', ['function greet(person) {'], ['function greet(name = "world") {']);
+const fixed = block('/src/greet.js', ['function greet(name) {'], ['function greet(name = "world") {']);
+
+// Scripted repairer: returns the given replies in turn, recording the prompts
+function repairer(...replies) {
+  const prompts = [];
+  const send = async (prompt) => {
+    prompts.push(prompt);
+    return replies.length > 1 ? replies.shift() : replies[0];
+  };
+  return { prompts, send };
+}
+
+run('validator', async () => {
+  // Valid blocks never reach the model
+  let model = repairer(undefined);
+  let result = await repairReview(`Use a template literal.\n\n${good}`, codeContext, model.send, 2);
+  check(
+    'valid review needs no repair',
+    model.prompts.length === 0 && result.validation.failures.length === 0 && result.validation.blocks === 1,
+    result.validation,
+  );
+
+  // Later blocks apply on top of earlier ones in the same file
+  const followUp = block('/src/greet.js', ['  return `Hello ${name}`;'], ['  return `Hello, ${name}!`;']);
+  result = await repairReview(`${good}\n\n${followUp}`, codeContext, model.send, 2);
+  check('blocks build on earlier blocks', result.validation.failures.length === 0, result.validation);
+
+  // A stale SEARCH section is sent back and the fix spliced in
+  model = repairer(`### BLOCK 1\n${fixed}`);
+  result = await repairReview(`${stale}\n\n${good}`, codeContext, model.send, 2);
+  check(
+    'failing block is sent for repair',
+    model.prompts.length === 1 && model.prompts[0].includes('function greet(person)'),
+    model.prompts,
+  );
+  check(
+    'repaired block replaces the failing one',
+    result.review.includes('function greet(name) {') &&
+      !result.review.includes('greet(person)') &&
+      result.review.includes(good),
+    result.review,
+  );
+  check(
+    'repair is counted',
+    result.validation.repaired === 1 &&
+      result.validation.repairAttempts === 1 &&
+      result.validation.failures.length === 0,
+    result.validation,
+  );
+
+  // A withdrawn block is removed with its path line
+  model = repairer('### BLOCK 1\nDROP');
+  result = await repairReview(`${stale}\n\n${good}`, codeContext, model.send, 2);
+  check(
+    'dropped block is removed',
+    result.validation.dropped === 1 && result.validation.blocks === 1 && result.review.trim() === good,
+    result,
+  );
+
+  // Repairs stop at the attempt limit and the failure is reported
+  model = repairer('### BLOCK 1\nI could not find it.');
+  result = await repairReview(stale, codeContext, model.send, 2);
+  check(
+    'repairs stop at the attempt limit',
+    model.prompts.length === 2 && result.validation.repairAttempts === 2,
+    result.validation,
+  );
+  check(
+    'unrepaired block is reported',
+    result.validation.failures.length === 1 && /not found/.test(result.validation.failures[0].error),
+    result.validation.failures,
+  );
+
+  // Declining to repair (e.g. a cost cap) stops without counting an attempt
+  model = repairer(undefined);
+  result = await repairReview(stale, codeContext, model.send, 2);
+  check(
+    'declined repair is not counted',
+    model.prompts.length === 1 && result.validation.repairAttempts === 0 && result.validation.failures.length === 1,
+    result.validation,
+  );
+
+  // Specific errors for the mistakes models make most
+  model = repairer(undefined);
+  result = await repairReview(
+    [
+      block(
+        '/src/greet.js',
+        ['1  function greet(name) {', '2    return "Hello " + name;'],
+        ['function greet(name) {', '  return "Hi " + name;'],
+      ),
+      block('/src/other.js', ['const x = 1;'], ['const x = 2;']),
+      block('/src/new.js', [], ['module.exports = {};']),
+    ].join('\n\n'),
+    codeContext,
+    model.send,
+    0,
+  );
+  const errors = result.validation.failures.map((f) => f.error);
+  check('copied line numbers are named', errors.length === 2 && /line numbers/.test(errors[0]), errors);
+  check('files outside the context are named', /not one of the files/.test(errors[1] || ''), errors);
+  check('new files need not be in the context', result.validation.blocks === 3, result.validation);
+});
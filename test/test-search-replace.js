@@ -0,0 +1,125 @@
+const { check, run, load } = require('./checks');
+const { parseSearchReplace } = load('utils/searchReplaceParser');
+
+// Checks the SEARCH/REPLACE parser on the layouts models actually write.
+
+run('parser', () => {
+  // A path on the line above the block
+  let result = parseSearchReplace(
+    ['/src/a.js', '<<<<<<< SEARCH', 'const a = 1;', '=======', 'const a = 2;', '>>>>>>> REPLACE'].join('\n'),
+  );
+  check('plain block is parsed', result.valid && result.blocks.length === 1, result);
+  check('plain block keeps its path', result.blocks[0].filePath === '/src/a.js', result.blocks[0]);
+  check(
+    'plain block sections',
+    result.blocks[0].search === 'const a = 1;' && result.blocks[0].replace === 'const a = 2;',
+    result.blocks[0],
+  );
+
+  // A rationale line between the path and the block
+  result = parseSearchReplace(
+    [
+      '**/src/a.js**',
+      'Rename the counter so it matches its callers.',
+      '<<<<<<< SEARCH',
+      'let n = 0;',
+      '=======',
+      'let count = 0;',
+      '>>>>>>> REPLACE',
+    ].join('\n'),
+  );
+  check('rationale line keeps the path above it', result.blocks[0].filePath === '/src/a.js', result.blocks[0]);
+
+  // Later blocks without a path reuse the previous one, even after rationale
+  result = parseSearchReplace(
+    [
+      '/src/a.js',
+      '<<<<<<< SEARCH',
+      'one',
+      '=======',
+      'two',
+      '>>>>>>> REPLACE',
+      'Also fix the second use.',
+      '<<<<<<< SEARCH',
+      'three',
+      '=======',
+      'four',
+      '>>>>>>> REPLACE',
+    ].join('\n'),
+  );
+  check(
+    'block without a path reuses the previous one',
+    result.blocks.length === 2 && result.blocks[1].filePath === '/src/a.js',
+    result.blocks,
+  );
+
+  // Indented markers, e.g. inside a Markdown list item
+  result = parseSearchReplace(
+    [
+      '1. Guard against an empty list',
+      '   /src/b.js',
+      '   <<<<<<< SEARCH',
+      '   function first(items) {',
+      '     return items[0];',
+      '   =======',
+      '   function first(items) {',
+      '     return items.length ? items[0] : undefined;',
+      '   >>>>>>> REPLACE',
+    ].join('\n'),
+  );
+  check('indented block is parsed', result.valid && result.blocks.length === 1, result);
+  check('indented block keeps its path', result.blocks[0].filePath === '/src/b.js', result.blocks[0]);
+  check(
+    'indented block loses only the marker indentation',
+    result.blocks[0].search === 'function first(items) {\n  return items[0];' &&
+      result.blocks[0].replace === 'function first(items) {\n  return items.length ? items[0] : undefined;',
+    result.blocks[0],
+  );
+
+  // Code fences around the block and around each section
+  result = parseSearchReplace(
+    ['/src/c.js', '```js', '<<<<<<< SEARCH', 'old();', '=======', 'renewed();', '>>>>>>> REPLACE', '```'].join('\n'),
+  );
+  check(
+    'fenced block is parsed',
+    result.valid && result.blocks[0].search === 'old();' && result.blocks[0].filePath === '/src/c.js',
+    result,
+  );
+
+  // An empty SEARCH section creates a file
+  result = parseSearchReplace(
+    ['/src/new.js', '<<<<<<< SEARCH', '=======', 'module.exports = {};', '>>>>>>> REPLACE'].join('\n'),
+  );
+  check(
+    'empty SEARCH section',
+    result.valid && result.blocks[0].search === '' && result.blocks[0].replace === 'module.exports = {};',
+    result,
+  );
+
+  // Malformed blocks are reported with their line
+  result = parseSearchReplace(
+    [
+      '/src/a.js',
+      '<<<<<<< SEARCH',
+      'one',
+      '<<<<<<< SEARCH',
+      'two',
+      '=======',
+      'three',
+      '>>>>>>> REPLACE',
+      '>>>>>>> REPLACE',
+    ].join('\n'),
+  );
+  check(
+    'unfinished block is an error',
+    result.errors.some((e) => e.line === 2),
+    result.errors,
+  );
+  check(
+    'stray REPLACE marker is an error',
+    result.errors.some((e) => e.line === 9),
+    result.errors,
+  );
+  check('the next block still parses', result.blocks.length === 1 && result.blocks[0].search === 'two', result.blocks);
+  check('malformed text is not valid', !result.valid);
+});
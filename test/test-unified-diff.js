@@ -0,0 +1,85 @@
+const { run, check, load } = require('./checks');
+const { createUnifiedDiff } = load('utils/unifiedDiff');
+
+// Checks the unified diffs sage-apply shows for dry runs.
+
+// Show both diffs in full when they differ
+function checkDiff(label, actual, expected) {
+  check(label, actual === expected, actual === expected ? undefined : { expected, actual });
+}
+
+const numbered = (count) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+run('diff', () => {
+  checkDiff(
+    'new file',
+    createUnifiedDiff('/p/new.js', '', 'a\nb\n', '/dev/null'),
+    '--- /dev/null\n+++ /p/new.js\n@@ -0,0 +1,2 @@\n+a\n+b\n',
+  );
+
+  checkDiff(
+    'deleted contents',
+    createUnifiedDiff('/p/old.js', 'a\nb\n', ''),
+    '--- /p/old.js\n+++ /p/old.js\n@@ -1,2 +0,0 @@\n-a\n-b\n',
+  );
+
+  const before = numbered(10);
+  const after = [...before];
+  after[4] = 'line five';
+  checkDiff(
+    'one changed line with three lines of context',
+    createUnifiedDiff('/p/m.js', `${before.join('\n')}\n`, `${after.join('\n')}\n`),
+    [
+      '--- /p/m.js',
+      '+++ /p/m.js',
+      '@@ -2,7 +2,7 @@',
+      ' line 2',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      '+line five',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+      '',
+    ].join('\n'),
+  );
+
+  const long = numbered(20);
+  const edited = [...long];
+  edited[1] = 'LINE 2';
+  edited.splice(17, 1);
+  edited.push('line 21');
+  checkDiff(
+    'distant changes get separate hunks',
+    createUnifiedDiff('/p/m.js', `${long.join('\n')}\n`, `${edited.join('\n')}\n`),
+    [
+      '--- /p/m.js',
+      '+++ /p/m.js',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+LINE 2',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -15,6 +15,6 @@',
+      ' line 15',
+      ' line 16',
+      ' line 17',
+      '-line 18',
+      ' line 19',
+      ' line 20',
+      '+line 21',
+      '',
+    ].join('\n'),
+  );
+
+  checkDiff(
+    'missing final newline is marked',
+    createUnifiedDiff('/p/m.js', 'a\nb', 'a\nc'),
+    '--- /p/m.js\n+++ /p/m.js\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+c\n\\ No newline at end of file\n',
+  );
+
+  checkDiff('unchanged file has no diff', createUnifiedDiff('/p/m.js', 'a\n', 'a\n'), '');
+});